@@ -3,12 +3,14 @@ let HR = null;
 
 const SECTIONS = [
   { key: 'demographics', icon: '👤', label: 'Demographics', count: r => r.demographics ? 1 : 0 },
+  { key: 'timeline', icon: '🕒', label: 'Timeline' },
   { key: 'allergies', icon: '⚠️', label: 'Allergies' },
   { key: 'problems', icon: '🩺', label: 'Problems' },
   { key: 'medications', icon: '💊', label: 'Medications' },
   { key: 'immunizations', icon: '💉', label: 'Immunizations' },
   { key: 'visits', icon: '🏥', label: 'Visits' },
   { key: 'labResults', icon: '🧪', label: 'Lab Results' },
+  { key: 'conversations', icon: '📥', label: 'Inbox' },
   { key: 'messages', icon: '💬', label: 'Messages' },
   { key: 'documents', icon: '📄', label: 'Documents' },
   { key: 'referrals', icon: '🔗', label: 'Referrals' },
@@ -229,6 +231,46 @@ const renderers = {
     ));
   },
 
+  timeline(r) {
+    if (!r.timeline?.length) return empty('No dated events');
+    const kinds = {
+      visit: 'Visit', order: 'Order', result: 'Result', note: 'Note',
+      medicationStart: 'Medication started', medicationStop: 'Medication stopped',
+      immunization: 'Immunization', problemOnset: 'Problem noted', problemResolved: 'Problem resolved',
+      message: 'Message', claim: 'Claim', payment: 'Payment',
+    };
+    // Most recent first, like the inbox
+    return tableView([...r.timeline].reverse(), [
+      { key: 'date', label: 'Date', fmt: d => d?.length > 10 ? fmtDateTime(d) : fmtDate(d) },
+      { key: 'kind', label: 'Event', render: k => tag(kinds[k] ?? k, 'tag-blue') },
+      { key: 'label', label: 'Detail' },
+      { key: 'amount', label: 'Amount', render: v => v != null ? `$${Number(v).toFixed(2)}` : '\u2014' },
+    ]);
+  },
+
+  conversations(r) {
+    if (!r.conversations?.length) return empty('No conversations');
+    return h('div', null, ...r.conversations.map(c =>
+      card(
+        c.subject ?? '(no subject)',
+        c.topic,
+        h('div', null,
+          field('Last message', fmtDateTime(c.lastMessageDate)),
+          field('Participants', c.participants.join(', ') || '\u2014'),
+          c.visitIds.length ? field('Visits', c.visitIds.join(', ')) : '',
+          h('div', {className: 'thread'}, ...c.messages.map(m =>
+            h('div', {className: `bubble ${m.direction === 'fromPatient' ? 'from-patient' : 'to-patient'}`},
+              h('div', {className: 'bubble-meta'},
+                `${m.direction === 'fromPatient' ? 'You' : str(m.from)} \u00b7 ${fmtDateTime(m.date)}`),
+              m.body ?? '',
+            )
+          )),
+        ),
+        c._epic
+      )
+    ));
+  },
+
   documents(r) {
     if (!r.documents?.length) return empty('No documents');
     return h('div', null, ...r.documents.map(d =>
@@ -352,9 +394,8 @@ const renderers = {
   questionnaireResponses(r) {
     if (!r.questionnaireResponses?.length) return empty('No questionnaires');
     return h('div', null, ...r.questionnaireResponses.map(q =>
-      card(str(q.name), fmtDate(q.date), h('div', null,
-        field('Status', str(q.status)),
-        field('Score', str(q.score)),
+      card(str(q.formName), fmtDate(q.completedDate), h('div', null,
+        q.score != null ? field('Score', q.severity ? `${q.score} (${q.severity})` : String(q.score)) : '',
         q.answers?.length ? h('div', {style:'margin-top:8px'},
           h('strong', null, 'Responses:'),
           h('div', {style:'padding-left:12px; margin-top:4px'},
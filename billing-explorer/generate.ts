@@ -1,14 +1,18 @@
 #!/usr/bin/env bun
 /**
- * generate.ts — Build billing-explorer/data.json from patient_record.json
+ * generate.ts — Build billing-explorer/data.json from the EHI database
  *
- * Usage: bun run billing-explorer/generate.ts
+ * Usage: bun run billing-explorer/generate.ts [--db ehi_clean.db] [--patient PAT_ID]
+ *        bun run billing-explorer/generate.ts --json patient_record.json
  *
- * Loads the raw patient record, projects it through HealthRecord,
- * and builds encounter-centric billing stories with timeline events.
+ * Projects the patient in-process (or loads an existing patient_record.json),
+ * projects it through HealthRecord, and builds encounter-centric billing
+ * stories with timeline events.
  */
+import { Database } from 'bun:sqlite';
 import { projectHealthRecord } from '../src/HealthRecord';
-import { loadPatientRecord } from '../src/PatientRecord';
+import { loadPatientRecord, type EpicRow } from '../src/PatientRecord';
+import { projectPatientRecord } from '../src/project';
 import type {
   HealthRecord, Charge, Payment, TransactionAction, EOBLineItem,
   CollectionEvent, RemittanceRecord, ClaimReconciliationRecord,
@@ -17,7 +21,18 @@ import type {
 import { join } from 'path';
 
 // ─── Load and project ─────────────────────────────────────────
-const raw = await Bun.file(join(import.meta.dir, '..', 'patient_record.json')).json();
+const argValue = (flag: string): string | null =>
+  process.argv.includes(flag) ? process.argv[process.argv.indexOf(flag) + 1] : null;
+
+let raw: EpicRow;
+const jsonPath = argValue('--json');
+if (jsonPath) {
+  raw = await Bun.file(jsonPath).json();
+} else {
+  const ehiDb = new Database(argValue('--db') ?? join(import.meta.dir, '..', 'ehi_clean.db'), { readonly: true });
+  raw = projectPatientRecord(ehiDb, { patId: argValue('--patient') ?? undefined });
+  ehiDb.close();
+}
 const pr = loadPatientRecord(raw);
 const hr = projectHealthRecord(pr);
 
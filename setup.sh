@@ -6,17 +6,26 @@ set -euo pipefail
 # Usage:
 #   ./setup.sh                     # Use bundled sample data (git submodule)
 #   ./setup.sh /path/to/my-export  # Use your own EHI export
+#   ./setup.sh /path/to/export.zip # ...or the zip as downloaded (nested zips OK)
 #
 # Your EHI export directory should contain:
 #   tsv/       — the TSV files from Epic's EHI export
 #   schemas/   — the JSON schema files from open.epic.com
+#
+# A zip is read in place by the loader. If it has no schema JSONs inside,
+# schemas/ must already exist (e.g. from the bundled sample data).
 
 SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
 cd "$SCRIPT_DIR"
 
 # ── Determine data source ───────────────────────────────────────────────────
 
-if [[ $# -ge 1 ]]; then
+LOAD_ARGS=()
+if [[ $# -ge 1 && -f "$1" ]]; then
+  ZIP_PATH="$(cd "$(dirname "$1")" && pwd)/$(basename "$1")"
+  echo "Using EHI export zip: $ZIP_PATH"
+  LOAD_ARGS=(--tsv "$ZIP_PATH")
+elif [[ $# -ge 1 ]]; then
   DATA_DIR="$(cd "$1" && pwd)"
   echo "Using custom EHI data: $DATA_DIR"
 else
@@ -31,12 +40,13 @@ else
 fi
 
 # Verify data directory
-if [[ ! -d "$DATA_DIR/tsv" ]]; then
+if [[ ${#LOAD_ARGS[@]} -gt 0 ]]; then
+  : # zip: nothing to link
+elif [[ ! -d "$DATA_DIR/tsv" ]]; then
   echo "ERROR: $DATA_DIR/tsv/ not found."
   echo "Your EHI export directory must contain a tsv/ subdirectory."
   exit 1
-fi
-if [[ ! -d "$DATA_DIR/schemas" ]]; then
+elif [[ ! -d "$DATA_DIR/schemas" ]]; then
   echo "ERROR: $DATA_DIR/schemas/ not found."
   echo "Your EHI export directory must contain a schemas/ subdirectory."
   exit 1
@@ -44,10 +54,12 @@ fi
 
 # ── Create symlinks ─────────────────────────────────────────────────────────
 
-ln -sfn "$DATA_DIR/tsv" tsv
-ln -sfn "$DATA_DIR/schemas" schemas
-echo "Linked tsv/ → $DATA_DIR/tsv/"
-echo "Linked schemas/ → $DATA_DIR/schemas/"
+if [[ ${#LOAD_ARGS[@]} -eq 0 ]]; then
+  ln -sfn "$DATA_DIR/tsv" tsv
+  ln -sfn "$DATA_DIR/schemas" schemas
+  echo "Linked tsv/ → $DATA_DIR/tsv/"
+  echo "Linked schemas/ → $DATA_DIR/schemas/"
+fi
 
 # ── Install dependencies ────────────────────────────────────────────────────
 
@@ -63,7 +75,7 @@ bun install
 
 echo ""
 echo "═══ Loading TSVs into SQLite ═══"
-bun run src/load_sqlite.ts
+bun run src/load_sqlite.ts ${LOAD_ARGS[@]+"${LOAD_ARGS[@]}"}
 
 echo ""
 echo "═══ Projecting patient record ═══"
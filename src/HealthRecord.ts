@@ -47,10 +47,13 @@ export interface HealthRecord {
   immunizations: Immunization[];
   visits: Visit[];
   labResults: LabResult[];
+  imagingStudies: ImagingStudy[];
+  preventiveCare: PreventiveCareItem[];
   socialHistory: SocialHistoryTimeline | null;
   surgicalHistory: SurgicalHistoryEntry[];
   familyHistory: FamilyMember[];
   messages: Message[];
+  conversations: Conversation[];
   billing: BillingSummary;
   coverage: InsuranceCoverage[];
   referrals: Referral[];
@@ -58,6 +61,7 @@ export interface HealthRecord {
   episodes: Episode[];
   goals: PatientGoal[];
   questionnaireResponses: QuestionnaireResponse[];
+  timeline: TimelineEvent[];
 }
 
 // ─── Demographics ──────────────────────────────────────────────────────────
@@ -139,6 +143,27 @@ export interface Medication {
   priority: string | null;              // "Routine", "Stat"
   discontinuedDate: ISODateTime;        // when discontinued
   discontinuedReason: string | null;    // why discontinued
+  dispenses: MedicationDispense[];
+  administrations: MedicationAdministration[];
+  _epic: EpicRaw;
+}
+
+/** One pharmacy fill of the order, oldest first */
+export interface MedicationDispense {
+  date: ISODate;
+  quantity: string | null;              // "30 tablet"
+  pharmacy: string | null;
+  sig: string | null;                   // label sig (MED_DISPENSE_SIG)
+  _epic: EpicRaw;
+}
+
+/** One charted administration (or hold/refusal) of the order, oldest first */
+export interface MedicationAdministration {
+  time: ISODateTime;
+  action: string | null;                // "Given", "Held", "Refused"
+  dose: string | null;                  // "5 mg"
+  route: string | null;
+  givenBy: string | null;
   _epic: EpicRaw;
 }
 
@@ -186,6 +211,25 @@ export interface Visit {
   orders: VisitOrder[];
   notes: VisitNote[];
   vitalSigns: VitalSign[];
+  /** Where the patient was during an inpatient/ED stay, oldest first */
+  movements: VisitMovement[];
+  _epic: EpicRaw;
+}
+
+/**
+ * One admit/discharge/transfer step (CLARITY_ADT). Complements
+ * admissionTime/dischargeTime with the units in between: admitted to 4 East
+ * at T, transferred to ICU at T2, discharged at T3. Canceled events are left
+ * out.
+ */
+export interface VisitMovement {
+  event: string;                      // "Admission", "Transfer In", "Discharge", ...
+  time: ISODateTime;                  // EFFECTIVE_TIME
+  unit: string | null;                // department name
+  room: string | null;
+  bed: string | null;
+  patientClass: string | null;        // PAT_CLASS_C_NAME — "Inpatient", "Observation"
+  service: string | null;             // PAT_SERVICE_C_NAME — "Medicine", "Cardiology"
   _epic: EpicRaw;
 }
 
@@ -287,6 +331,45 @@ export interface LabResult {
   _epic: EpicRaw;
 }
 
+// ─── Imaging Studies ───────────────────────────────────────────────────────
+
+/**
+ * One radiology study per imaging order: what was imaged and how, who read
+ * it, and the report. Imaging orders' results stay out of labResults.
+ */
+export interface ImagingStudy {
+  orderId: Id;
+  name: string;
+  visitId: Id | null;
+  date: ISODateTime;                    // ORDER_INST
+  modality: string | null;              // "CT", "MR", "US"
+  bodySite: string | null;              // anatomical region
+  accessionNumber: string | null;
+  readingRadiologist: string | null;
+  finalizingRadiologist: string | null;
+  signedTime: ISODateTime;              // when the report was signed in RIS
+  impression: string;                   // ORDER_IMPRESSION lines, joined
+  narrative: string;                    // ORDER_NARRATIVE lines, joined
+  studyUids: string[];                  // DICOM study instance UIDs
+  _epic: EpicRaw;
+}
+
+// ─── Preventive Care ───────────────────────────────────────────────────────
+
+/**
+ * One health maintenance topic (screening, vaccine series, ...): where it
+ * stands, when it's next due, and what last satisfied it. Soonest due first.
+ */
+export interface PreventiveCareItem {
+  topicId: Id;
+  topic: string;                        // "Colon Cancer Screening"
+  status: string | null;                // "Due Soon", "Overdue", "Completed", "Postponed"
+  dueDate: ISODate;
+  lastCompleted: ISODate;
+  satisfiedBy: string | null;           // how the last completion was recorded — "Done", "Outside Result"
+  _epic: EpicRaw;
+}
+
 // ─── History ───────────────────────────────────────────────────────────────
 
 /** Latest snapshot of social history */
@@ -360,6 +443,22 @@ export interface Message {
   body: string | null;
   status: string | null;
   threadId: Id | null;
+  direction: 'fromPatient' | 'toPatient' | null;
+  _epic: EpicRaw;
+}
+
+/**
+ * A MyChart conversation thread with its messages oldest first — what an
+ * inbox shows as one row. Most recent activity first.
+ */
+export interface Conversation {
+  id: Id;
+  subject: string | null;               // subject of the first message that has one
+  topic: string | null;                 // "Medical Advice", "Customer Service"
+  participants: string[];               // thread users, then message senders and recipients
+  visitIds: Id[];                       // encounters the thread was attached to
+  lastMessageDate: ISODateTime;
+  messages: Message[];
   _epic: EpicRaw;
 }
 
@@ -927,10 +1026,48 @@ export interface QuestionnaireResponse {
   formId: Id;
   formName: string | null;
   encounterId: Id | null;
+  messageId: Id | null;                 // MyChart message it was submitted with
   completedDate: ISODateTime;
+  answers: QuestionnaireAnswer[];
+  score: number | null;                 // total for scored instruments (PHQ-2/9, GAD-7)
+  severity: string | null;              // "Mild", "Moderate", ... for that total
+  _epic: EpicRaw;
+}
+
+/** One question's answer, in form order */
+export interface QuestionnaireAnswer {
+  questionId: Id;
+  question: string | null;
+  answer: string | null;                // as displayed — "Several days"
+  value: number | null;                 // numeric answer, or the item's points on a scored instrument
   _epic: EpicRaw;
 }
 
+// ─── Timeline ──────────────────────────────────────────────────────────────
+
+export type TimelineEventKind =
+  | 'visit' | 'order' | 'result' | 'note'
+  | 'medicationStart' | 'medicationStop' | 'immunization'
+  | 'problemOnset' | 'problemResolved'
+  | 'message' | 'claim' | 'payment';
+
+/** One dated event from any section, in a single chronological stream */
+export interface TimelineEvent {
+  date: string;                         // ISO date, or date-time when the source has a time
+  kind: TimelineEventKind;
+  label: string;                        // "LIPID PANEL", "LDL: 84 mg/dL", "Hyperlipidemia"
+  visitId: Id | null;
+  amount: number | null;                // claims and payments
+  ref: TimelineRef;
+}
+
+/** Where the event's entity lives in this HealthRecord */
+export interface TimelineRef {
+  section: 'visits' | 'visits.orders' | 'visits.notes' | 'labResults' | 'imagingStudies'
+    | 'medications' | 'immunizations' | 'problems' | 'messages' | 'billing.claims' | 'billing.payments';
+  id: Id;                               // results: the orderId they're reported under
+}
+
 
 /**
  * Serialize a HealthRecord to clean JSON, stripping noise.
@@ -953,19 +1090,18 @@ export function serializeHealthRecord(hr: HealthRecord, opts?: { includeEpic?: b
   }, 2);
 }
 
+// The loader already stores canonical ISO strings (see datetime.ts); parsing
+// again is a no-op for those and still handles databases loaded before that.
+// UTC instants keep their "Z"; local wall-clock times stay offset-free.
+
 function toISODate(v: unknown): ISODate {
   if (!v || typeof v !== 'string') return null;
-  try { const d = new Date(v.trim()); return isNaN(d.getTime()) ? null : d.toISOString().split('T')[0]; }
-  catch { return null; }
+  return normalizeEpicDateTime(v)?.slice(0, 10) ?? null;
 }
 
 function toISODateTime(v: unknown): ISODateTime {
   if (!v || typeof v !== 'string') return null;
-  try {
-    const d = new Date(v.trim());
-    if (isNaN(d.getTime())) return null;
-    return (d.getHours() === 0 && d.getMinutes() === 0) ? d.toISOString().split('T')[0] : d.toISOString();
-  } catch { return null; }
+  return normalizeEpicDateTime(v);
 }
 
 function str(v: unknown): string | null { return (v == null || v === '') ? null : String(v); }
@@ -987,16 +1123,23 @@ function ynBool(v: unknown): boolean | null { return v === 'Y' ? true : v === 'N
  *
  * If you need the full raw object with children, access the source
  * PatientRecord directly rather than going through `_epic`.
+ *
+ * The one object kept is `_src`, present when the record was projected with
+ * --provenance: it names the table, primary key and split members the row
+ * came from, so a HealthRecord field can be traced back to its Epic row.
  */
 function epic(obj: any): EpicRaw {
   const raw: EpicRaw = {};
   for (const [k, v] of Object.entries(obj)) {
     if (v != null && !Array.isArray(v) && typeof v !== 'object') raw[k] = v;
   }
+  if (obj._src) raw._src = obj._src;
   return raw;
 }
 
 import { PatientRecord } from './PatientRecord';
+import type * as PR from './PatientRecord';
+import { normalizeEpicDateTime } from './datetime';
 type R = PatientRecord;
 
 export function projectHealthRecord(r: R): HealthRecord {
@@ -1011,10 +1154,13 @@ export function projectHealthRecord(r: R): HealthRecord {
     immunizations: r.immunizations.map(projectImmunization),
     visits: r.visits().map((v: any) => projectVisit(v, r)),
     labResults: projectAllLabResults(r),
+    imagingStudies: projectImagingStudies(r),
+    preventiveCare: projectPreventiveCare(r),
     socialHistory: projectSocialHistory(r),
     surgicalHistory: projectSurgicalHistory(r),
     familyHistory: projectFamilyHistory(r),
     messages: r.messages.map(projectMessage),
+    conversations: projectConversations(r),
     billing: projectBilling(r),
     coverage: r.coverage.map(projectCoverage),
     referrals: r.referrals.map(projectReferral),
@@ -1022,6 +1168,7 @@ export function projectHealthRecord(r: R): HealthRecord {
     episodes: r.episodes.map(projectEpisode),
     goals: projectGoals(r),
     questionnaireResponses: projectQuestionnaires(r),
+    timeline: projectTimeline(r),
   };
 }
 
@@ -1097,52 +1244,67 @@ function projectProblem(p: any): Problem {
   };
 }
 
-function projectMedication(m: any): Medication {
-  const dose = [str(m.HV_DISCRETE_DOSE), str(m.HV_DOSE_UNIT_C_NAME)].filter(Boolean).join(' ') || null;
+function projectMedication(m: PR.Medication): Medication {
   return {
     id: sid(m.ORDER_MED_ID),
-    name: m.AMB_MED_DISP_NAME ?? m.DISPLAY_NAME ?? m.DESCRIPTION ?? 'Unknown',
-    genericName: str(m._generic_name ?? m.GENERIC_NAME) ?? str(m.DESCRIPTION),
-    dose, route: str(m.MED_ROUTE_C_NAME),
-    frequency: str(m.HV_DISCR_FREQ_ID_FREQ_NAME),
-    sig: str(m.signature?.[0]?.SIG_TEXT ?? m.SIG), // signature child array from ORDER_MED_SIG; fall back to inline SIG
-    startDate: toISODate(m.START_DATE), endDate: toISODate(m.END_DATE),
-    status: str(m.ORDER_STATUS_C_NAME),
-    prescriber: str(m.ORD_CREATR_USER_ID_NAME),
-    pharmacy: str(m.PHARMACY_ID_PHARMACY_NAME),
-    associatedDiagnoses: (m.diagnoses ?? m.associatedDiagnoses ?? []).map((d: any) => d._dx_name ?? d.DX_NAME ?? String(d.DX_ID)),
-    quantity: str(m.QUANTITY),
-    refills: num(m.REFILLS),
-    refillsRemaining: num(m.REFILLS_REMAINING),
-    dispenseAsWritten: m.DISP_AS_WRITTEN_YN === 'Y' ? true : m.DISP_AS_WRITTEN_YN === 'N' ? false : null,
-    orderClass: str(m.ORDER_CLASS_C_NAME),
-    orderingMode: str(m.ORDERING_MODE_C_NAME),
-    priority: str(m.ORDER_PRIORITY_C_NAME),
-    discontinuedDate: toISODateTime(m.DISCON_TIME),
-    discontinuedReason: str(m.RSN_FOR_DISCON_C_NAME),
+    name: m.name ?? 'Unknown',
+    genericName: str(m.genericName),
+    dose: str(m.dose), route: str(m.route),
+    frequency: str(m.frequency),
+    sig: str(m.sig),
+    startDate: toISODate(m.startDate), endDate: toISODate(m.endDate),
+    status: str(m.status),
+    prescriber: str(m.prescriber),
+    pharmacy: str(m.pharmacy),
+    associatedDiagnoses: m.diagnosisNames(),
+    quantity: str(m.quantity),
+    refills: num(m.refills),
+    refillsRemaining: num(m.refillsRemaining),
+    dispenseAsWritten: ynBool(m.dispenseAsWrittenYN),
+    orderClass: str(m.orderClass),
+    orderingMode: str(m.orderingMode),
+    priority: str(m.priority),
+    discontinuedDate: toISODateTime(m.discontinuedTime),
+    discontinuedReason: str(m.discontinuedReason),
+    dispenses: m.dispenses
+      .map((d): MedicationDispense => ({
+        date: toISODate(d.DISPENSE_DTTM),
+        quantity: [str(d.DISPENSE_QTY), str(d.DISPENSE_QTY_UNIT_C_NAME)].filter(Boolean).join(' ') || null,
+        pharmacy: str(d.PHARMACY_ID_PHARMACY_NAME),
+        sig: (d.sig ?? []).map(l => l.SIG_TEXT as string).filter(Boolean).join('\n') || null,
+        _epic: epic(d),
+      }))
+      .sort((a, b) => (a.date ?? '').localeCompare(b.date ?? '')),
+    administrations: m.administrations
+      .map((a): MedicationAdministration => ({
+        time: toISODateTime(a.ADMIN_DTTM),
+        action: str(a.ADMIN_ACTION_C_NAME),
+        dose: [str(a.ADMIN_DOSE), str(a.ADMIN_DOSE_UNIT_C_NAME)].filter(Boolean).join(' ') || null,
+        route: str(a.ADMIN_ROUTE_C_NAME),
+        givenBy: str(a.ADMIN_USER_ID_NAME),
+        _epic: epic(a),
+      }))
+      .sort((a, b) => (a.time ?? '').localeCompare(b.time ?? '')),
     _epic: epic(m),
   };
 }
 
-function projectImmunization(i: any): Immunization {
-  // Dose: prefer structured amount+unit ("0.5 mL"), fall back to free-text DOSE
-  const structuredDose = (i.IMMNZTN_DOSE_AMOUNT != null && i.IMMNZTN_DOSE_UNIT_C_NAME)
-    ? `${i.IMMNZTN_DOSE_AMOUNT} ${i.IMMNZTN_DOSE_UNIT_C_NAME}` : null;
+function projectImmunization(i: PR.Immunization): Immunization {
   return {
     id: sid(i.IMMUNE_ID),
-    vaccine: i.IMMUNZATN_ID_NAME ?? 'Unknown',
-    date: toISODate(i.IMMUNE_DATE),
-    site: str(i.SITE_C_NAME), route: str(i.ROUTE_C_NAME),
-    dose: structuredDose ?? str(i.DOSE),
-    lotNumber: str(i.LOT),
-    manufacturer: str(i.MFG_C_NAME),
-    administeredBy: str(i.GIVEN_BY_USER_ID_NAME ?? i.ENTRY_USER_ID_NAME),
-    status: str(i.IMMNZTN_STATUS_C_NAME),
-    product: str(i.IMM_PRODUCT),
-    ndcCode: str(i.NDC_NUM_ID_NDC_CODE),
-    expirationDate: toISODate(i.EXPIRATION_DATE),
-    givenBy: str(i.GIVEN_BY_USER_ID_NAME),
-    source: str(i.EXTERNAL_ADMIN_C_NAME),
+    vaccine: i.vaccine ?? 'Unknown',
+    date: toISODate(i.date),
+    site: str(i.site), route: str(i.route),
+    dose: str(i.dose),
+    lotNumber: str(i.lotNumber),
+    manufacturer: str(i.manufacturer),
+    administeredBy: str(i.givenBy ?? i.enteredBy),
+    status: str(i.status),
+    product: str(i.product),
+    ndcCode: str(i.ndcCode),
+    expirationDate: toISODate(i.expirationDate),
+    givenBy: str(i.givenBy),
+    source: str(i.source),
     _epic: epic(i),
   };
 }
@@ -1205,6 +1367,18 @@ function projectVisit(v: any, r: R): Visit {
       takenAt: toISODateTime(f.RECORDED_TIME),
       _epic: epic(f),
     })),
+    movements: ((v.adtEvents ?? []) as PR.EpicAdtEventRow[])
+      .filter(e => e.EVENT_SUBTYPE_C_NAME !== 'Canceled')
+      .map((e): VisitMovement => ({
+        event: e.EVENT_TYPE_C_NAME ?? 'Unknown',
+        time: toISODateTime(e.EFFECTIVE_TIME),
+        unit: str(e._department),
+        room: str(e._room),
+        bed: str(e._bed),
+        patientClass: str(e.PAT_CLASS_C_NAME),
+        service: str(e.PAT_SERVICE_C_NAME),
+        _epic: epic(e),
+      })),
     _epic: epic(v),
   };
 }
@@ -1250,6 +1424,8 @@ function projectAllLabResults(r: R): LabResult[] {
   const seen = new Set<string>();
   for (const v of r.visits()) {
     for (const o of v.orders ?? []) {
+      if (o.isImaging?.()) continue; // reported under imagingStudies
+      if (o.parent?.(r)) continue; // reported under its parent via allResults()
       for (const res of o.allResults?.(r) ?? []) {
         const key = `${res.ORDER_PROC_ID ?? o.ORDER_PROC_ID}-${res.LINE ?? ''}-${res.COMPONENT_ID ?? res.componentName ?? ''}`;
         if (seen.has(key)) continue;
@@ -1269,6 +1445,61 @@ function projectAllLabResults(r: R): LabResult[] {
   return results;
 }
 
+/** Join multi-line Epic text rows (ORDER_IMPRESSION, ORDER_NARRATIVE) in LINE order. */
+function joinLines(rows: EpicRaw[], col: string): string {
+  return [...rows]
+    .sort((a, b) => Number(a.LINE ?? 0) - Number(b.LINE ?? 0))
+    .map(row => row[col] ?? '')
+    .join('\n')
+    .trim();
+}
+
+function projectImagingStudies(r: R): ImagingStudy[] {
+  const studies: ImagingStudy[] = [];
+  for (const v of r.visits()) {
+    for (const o of v.orders ?? []) {
+      if (!o.isImaging()) continue;
+      studies.push({
+        orderId: sid(o.ORDER_PROC_ID),
+        name: o.description ?? o.procedureName ?? 'Unknown',
+        visitId: sid(v.PAT_ENC_CSN_ID),
+        date: toISODateTime(o.orderDate),
+        modality: str(o.modalityType[0]?.MODALITY_TYPE_C_NAME),
+        bodySite: str(o.anatomicalRegions[0]?.ANATOMICAL_REGION_C_NAME),
+        accessionNumber: str(o.accessionNumbers[0]?.ACC_NUM),
+        readingRadiologist: str(o.radReadings[0]?._radiologist),
+        finalizingRadiologist: str(o.finalizePhysician[0]?._radiologist),
+        signedTime: toISODateTime(o.risSignedInfo[0]?.SIGNED_DTTM),
+        impression: joinLines(o.impression, 'IMPRESSION'),
+        narrative: joinLines(o.narrative, 'NARRATIVE'),
+        studyUids: [...new Set(o.dicomStudies(r)
+          .map(d => str(d.STUDY_INSTANCE_UID))
+          .filter((u): u is string => u != null))],
+        _epic: epic(o),
+      });
+    }
+  }
+  return studies;
+}
+
+function projectPreventiveCare(r: R): PreventiveCareItem[] {
+  const hm = r.healthMaintenance;
+  const items = hm.topicIds().map((id): PreventiveCareItem => {
+    const status = hm.statusFor(id);
+    const last = hm.historyFor(id).at(-1);
+    return {
+      topicId: sid(id),
+      topic: hm.topicName(id) ?? 'Unknown',
+      status: str(status?.HMT_DUE_STATUS_C_NAME),
+      dueDate: toISODate(status?.IDEAL_RETURN_DT),
+      lastCompleted: toISODate(last?.HM_HX_DATE),
+      satisfiedBy: str(last?.HM_TYPE_C_NAME),
+      _epic: epic(status ?? hm.forecastFor(id)),
+    };
+  });
+  return items.sort((a, b) => (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999'));
+}
+
 function projectSocialHistory(r: R): SocialHistoryTimeline | null {
   const tl = r.socialHistory;
   if (!tl?.snapshots?.length) return null;
@@ -1432,72 +1663,88 @@ function projectMessage(m: any): Message {
     subject: str(m.SUBJECT), body: m.plainText || null,
     status: str(m.MSG_STATUS_C_NAME ?? m.RECORD_STATUS_C_NAME), // MSG_STATUS_C_NAME audit:optional
     threadId: str(m._thread_id ?? m.THREAD_ID),
+    direction: m.direction ?? null,
     _epic: epic(m),
   };
 }
 
-function projectCoverage(c: any): InsuranceCoverage {
-  // Subscriber info is in member_list children; use first self-member
-  const selfMember = (c.member_list ?? []).find((m: any) => m.MEM_REL_TO_SUB_C_NAME === 'Self') ?? (c.member_list ?? [])[0];
+function projectConversations(r: R): Conversation[] {
+  const convos = r.conversations.map((c): Conversation => {
+    const messages = c.allMessages(r).map(projectMessage);
+    return {
+      id: sid(c.THREAD_ID),
+      subject: str(c.subject(r)),
+      topic: c.topic ?? null,
+      participants: c.participants(r),
+      visitIds: c.linkedEncounters(r).map(e => sid(e.PAT_ENC_CSN_ID)),
+      lastMessageDate: messages.at(-1)?.date ?? null,
+      messages,
+      _epic: epic(c),
+    };
+  });
+  return convos.sort((a, b) => (b.lastMessageDate ?? '').localeCompare(a.lastMessageDate ?? ''));
+}
+
+function projectCoverage(c: PR.Coverage): InsuranceCoverage {
+  const subscriber = c.subscriber;
   return {
     id: sid(c.COVERAGE_ID),
-    type: str(c.COVERAGE_TYPE_C_NAME),
-    payorName: str(c.PAYOR_NAME),
-    planName: str(c.FREE_TXT_PLAN_NAME),
-    groupName: str(c.GROUP_NAME),
-    groupNumber: str(c.GROUP_NUM),
-    subscriberId: str(selfMember?.MEM_NUMBER),
-    effectiveDate: toISODate(selfMember?.MEM_EFF_FROM_DATE ?? c.CVG_EFF_DT),
-    terminationDate: toISODate(selfMember?.MEM_EFF_TO_DATE ?? c.CVG_TERM_DT),
+    type: str(c.type),
+    payorName: str(c.payorName),
+    planName: str(c.planName),
+    groupName: str(c.groupName),
+    groupNumber: str(c.groupNumber),
+    subscriberId: str(subscriber?.MEM_NUMBER),
+    effectiveDate: toISODate(subscriber?.MEM_EFF_FROM_DATE ?? c.effectiveDate),
+    terminationDate: toISODate(subscriber?.MEM_EFF_TO_DATE ?? c.terminationDate),
     _epic: epic(c),
   };
 }
 
-function projectReferral(ref: any): Referral {
-  const firstReason = (ref.reasons ?? [])[0];
+function projectReferral(ref: PR.Referral): Referral {
   return {
     id: sid(ref.REFERRAL_ID),
-    status: str(ref.RFL_STATUS_C_NAME),
-    type: str(ref.RFL_TYPE_C_NAME),
-    specialty: str(ref.PROV_SPEC_C_NAME),
-    referringProvider: str(ref.REFERRING_PROV_ID_REFERRING_PROV_NAM),
-    referredToProvider: str(ref.REFERRAL_PROV_ID),
-    entryDate: toISODate(ref.ENTRY_DATE),
-    expirationDate: toISODate(ref.EXP_DATE),
-    reason: str(firstReason?.REFERRAL_REASON_C_NAME ?? ref.RSN_FOR_RFL_C_NAME),
-    referralClass: str(ref.RFL_CLASS_C_NAME),
-    authorizedVisits: num(ref.AUTH_NUM_OF_VISITS),
-    actualVisits: num(ref.ACTUAL_NUM_VISITS),
-    priority: str(ref.PRIORITY_C_NAME),
-    schedulingStatus: str(ref.SCHED_STATUS_C_NAME),
-    preAuthRequired: str(ref.PREAUTH_REQ_C_NAME),
-    closeReason: str(ref.CLOSE_RSN_C_NAME),
-    referredToSpecialty: str(ref.REFD_TO_SPEC_C_NAME),
-    referredToLocation: str(ref.REFD_TO_LOC_POS_ID),
-    serviceDate: toISODate(ref.SERV_DATE),
+    status: str(ref.status),
+    type: str(ref.type),
+    specialty: str(ref.specialty),
+    referringProvider: str(ref.referringProvider),
+    referredToProvider: str(ref.referredToProvider),
+    entryDate: toISODate(ref.entryDate),
+    expirationDate: toISODate(ref.expirationDate),
+    reason: str(ref.reason),
+    referralClass: str(ref.referralClass),
+    authorizedVisits: num(ref.authorizedVisits),
+    actualVisits: num(ref.actualVisits),
+    priority: str(ref.priority),
+    schedulingStatus: str(ref.schedulingStatus),
+    preAuthRequired: str(ref.preAuthRequired),
+    closeReason: str(ref.closeReason),
+    referredToSpecialty: str(ref.referredToSpecialty),
+    referredToLocation: str(ref.referredToLocation),
+    serviceDate: toISODate(ref.serviceDate),
     _epic: epic(ref),
   };
 }
 
-function projectDocument(d: any): ClinicalDocument {
+function projectDocument(d: PR.ClinicalDocument): ClinicalDocument {
   return {
     id: sid(d.DOC_INFO_ID),
-    type: str(d.DOC_INFO_TYPE_C_NAME),
-    description: str(d.DOC_DESCR),
-    status: str(d.DOC_STAT_C_NAME),
-    receivedDate: toISODateTime(d.SCAN_INST_DTTM ?? d.SCAN_TIME),
-    receivedBy: str(d.RECV_BY_USER_ID_NAME),
+    type: str(d.type),
+    description: str(d.description),
+    status: str(d.status),
+    receivedDate: toISODateTime(d.receivedTime),
+    receivedBy: str(d.receivedBy),
     _epic: epic(d),
   };
 }
 
-function projectEpisode(e: any): Episode {
+function projectEpisode(e: PR.Episode): Episode {
   return {
     id: sid(e.EPISODE_ID),
-    name: str(e.NAME),
-    status: str(e.STATUS_C_NAME),
-    startDate: toISODate(e.START_DATE),
-    endDate: toISODate(e.END_DATE),
+    name: str(e.name),
+    status: str(e.status),
+    startDate: toISODate(e.startDate),
+    endDate: toISODate(e.endDate),
     _epic: epic(e),
   };
 }
@@ -1932,30 +2179,29 @@ function projectBilling(r: R): BillingSummary {
 
   // --- Service Benefits (from coverage) ---
   const serviceBenefits: ServiceBenefitRecord[] = [];
-  const coverageArr = (r as any).coverage ?? [];
-  for (const cvg of coverageArr) {
+  for (const cvg of r.coverage) {
     const cvgId = sid(cvg.COVERAGE_ID);
-    for (const sb of (cvg.service_benefits ?? [])) {
+    for (const sb of cvg.serviceBenefits) {
       serviceBenefits.push({
         coverageId: cvgId,
-        serviceType: str(sb.CVG_SVC_TYPE_ID_SERVICE_TYPE_NAME),
-        copayAmount: num(sb.COPAY_AMOUNT),
-        deductibleAmount: num(sb.DEDUCTIBLE_AMOUNT),
-        deductibleMet: num(sb.DEDUCTIBLE_MET_AMT),
-        deductibleRemaining: num(sb.DEDUCT_REMAIN_AMT),
-        coinsurancePercent: num(sb.COINS_PERCENT),
-        outOfPocketMax: num(sb.OUT_OF_POCKET_MAX),
-        outOfPocketRemaining: num(sb.OUT_OF_PCKT_REMAIN),
-        outOfPocketMet: ynBool(sb.OUT_OF_PCKET_MET_YN),
-        inNetwork: ynBool(sb.IN_NETWORK_YN),
-        networkLevel: str(sb.NET_LVL_SVC_C_NAME),
-        familyTier: str(sb.FAMILY_TIER_SVC_C_NAME),
-        maxVisits: num(sb.MAX_VISITS),
-        remainingVisits: num(sb.REMAINING_VISITS),
-        annualBenefitMax: num(sb.ANNUAL_BEN_MAX_AMT),
-        annualBenefitRemaining: num(sb.ANNUAL_BEN_REMAIN),
-        lifetimeBenefitMax: num(sb.LIFETIME_BEN_MAX),
-        lifetimeBenefitRemaining: num(sb.LIFETIME_BEN_REMAIN),
+        serviceType: str(sb.serviceTypeName),
+        copayAmount: num(sb.copayAmount),
+        deductibleAmount: num(sb.deductibleAmount),
+        deductibleMet: num(sb.deductibleMetAmount),
+        deductibleRemaining: num(sb.deductibleRemaining),
+        coinsurancePercent: num(sb.coinsPercent),
+        outOfPocketMax: num(sb.outOfPocketMax),
+        outOfPocketRemaining: num(sb.outOfPocketRemaining),
+        outOfPocketMet: ynBool(sb.outOfPocketMetYN),
+        inNetwork: ynBool(sb.inNetworkYN),
+        networkLevel: str(sb.networkLevel),
+        familyTier: str(sb.familyTier),
+        maxVisits: num(sb.maxVisits),
+        remainingVisits: num(sb.remainingVisits),
+        annualBenefitMax: num(sb.annualBenefitMax),
+        annualBenefitRemaining: num(sb.annualBenefitRemaining),
+        lifetimeBenefitMax: num(sb.lifetimeBenefitMax),
+        lifetimeBenefitRemaining: num(sb.lifetimeBenefitRemaining),
         _epic: epic(sb),
       });
     }
@@ -1985,14 +2231,114 @@ function projectGoals(r: R): PatientGoal[] {
 
 // ─── Questionnaire Responses ───────────────────────────────────────────────
 
+// PHQ and GAD items share one frequency scale
+const FREQUENCY_POINTS: Record<string, number> = {
+  'not at all': 0, 'several days': 1, 'more than half the days': 2, 'nearly every day': 3,
+};
+
+/** Scored instruments: how many frequency items make a complete total, and its severity bands */
+const SCORED_FORMS: { pattern: RegExp; items: number; bands: [number, string][] }[] = [
+  { pattern: /PHQ-?9/i, items: 9, bands: [[0, 'Minimal'], [5, 'Mild'], [10, 'Moderate'], [15, 'Moderately severe'], [20, 'Severe']] },
+  { pattern: /PHQ-?2/i, items: 2, bands: [[0, 'Negative'], [3, 'Positive']] },
+  { pattern: /GAD-?7/i, items: 7, bands: [[0, 'Minimal'], [5, 'Mild'], [10, 'Moderate'], [15, 'Severe']] },
+];
+
 function projectQuestionnaires(r: R): QuestionnaireResponse[] {
-  const answers = (r.patient as any).questionnaire_answers;
-  if (!Array.isArray(answers)) return [];
-  return answers.map((a: any): QuestionnaireResponse => ({
+  // Submissions from the patient's last-answers list, then any sent with a
+  // MyChart message that the list doesn't already have
+  const submissions: [PR.EpicQuestionnaireSubmissionRow, Id | null][] =
+    ((r.patient.questionnaire_answers as PR.EpicQuestionnaireSubmissionRow[]) ?? []).map(a => [a, null]);
+  const seen = new Set(submissions.map(([a]) => a.QUESR_ANS_ID).filter(id => id != null));
+  for (const m of r.messages) {
+    for (const a of m.questionnaireAnswers) {
+      if (a.QUESR_ANS_ID != null && seen.has(a.QUESR_ANS_ID)) continue;
+      submissions.push([a, sid(m.MESSAGE_ID)]);
+    }
+  }
+  return submissions.map(([a, messageId]) => projectQuestionnaire(a, messageId));
+}
+
+function projectQuestionnaire(a: PR.EpicQuestionnaireSubmissionRow, messageId: Id | null): QuestionnaireResponse {
+  const formName = str(a._form_name ?? a.QUESR_ANS_FORM_ID_FORM_NAME);
+  const scored = SCORED_FORMS.find(f => formName && f.pattern.test(formName));
+
+  // CL_QANSWER_OVTM keeps every contact of the answer record; the latest is current
+  const rows = a.answers ?? [];
+  const latest = Math.max(...rows.map(row => Number(row.CONTACT_DATE_REAL ?? 0)));
+  const current = rows
+    .filter(row => Number(row.CONTACT_DATE_REAL ?? 0) === latest)
+    .sort((x, y) => (x.LINE ?? 0) - (y.LINE ?? 0));
+  const answers = current.map((row): QuestionnaireAnswer => {
+    const answer = str(row.QUEST_ANSWER);
+    const points = answer != null ? FREQUENCY_POINTS[answer.toLowerCase()] : undefined;
+    return {
+      questionId: sid(row.QUEST_ID),
+      question: str(row._question),
+      answer,
+      value: scored && points != null ? points : num(answer),
+      _epic: epic(row),
+    };
+  });
+
+  // Prefer the total the form computed itself; else add up a complete set of items
+  let score: number | null = null;
+  if (scored) {
+    const total = answers.find(x => x.value != null && /\b(score|total)\b/i.test(x.question ?? ''));
+    const items = answers.filter(x => x.answer != null && FREQUENCY_POINTS[x.answer.toLowerCase()] != null);
+    if (total) score = total.value;
+    else if (items.length >= scored.items) score = items.slice(0, scored.items).reduce((sum, x) => sum + x.value!, 0);
+  }
+  const severity = scored && score != null
+    ? scored.bands.filter(([min]) => score! >= min).at(-1)?.[1] ?? null
+    : null;
+
+  return {
     formId: sid(a.QUESR_ANS_FORM_ID),
-    formName: str(a.QUESR_ANS_FORM_ID_FORM_NAME),
+    formName,
     encounterId: a.QUESR_ANS_CSN_ID ? sid(a.QUESR_ANS_CSN_ID) : null,
+    messageId,
     completedDate: toISODateTime(a.QUESR_ANS_DATETIME),
+    answers,
+    score,
+    severity,
     _epic: epic(a),
+  };
+}
+
+// ─── Timeline ──────────────────────────────────────────────────────────────
+
+function projectTimeline(r: R): TimelineEvent[] {
+  return r.timeline().map((e): TimelineEvent => ({
+    date: e.date,
+    kind: e.kind,
+    label: e.label,
+    visitId: e.encounter ? sid(e.encounter.PAT_ENC_CSN_ID) : null,
+    amount: e.kind === 'claim' ? num(e.source.totalChargeAmount)
+      : e.kind === 'payment' ? num(e.source.amount) : null,
+    ref: timelineRef(e, r),
   }));
 }
+
+function timelineRef(e: PR.TimelineEvent, r: R): TimelineRef {
+  switch (e.kind) {
+    case 'visit': return { section: 'visits', id: sid(e.source.PAT_ENC_CSN_ID) };
+    case 'order': return { section: 'visits.orders', id: sid(e.source.ORDER_PROC_ID) };
+    case 'result': {
+      // Child order results are reported under the root order (projectAllLabResults)
+      const order = r.orderByID(e.source.ORDER_PROC_ID)?.rootOrder(r);
+      return {
+        section: order?.isImaging() ? 'imagingStudies' : 'labResults',
+        id: sid(order?.ORDER_PROC_ID ?? e.source.ORDER_PROC_ID),
+      };
+    }
+    case 'note': return { section: 'visits.notes', id: sid(e.source.NOTE_ID) };
+    case 'medicationStart':
+    case 'medicationStop': return { section: 'medications', id: sid(e.source.ORDER_MED_ID) };
+    case 'immunization': return { section: 'immunizations', id: sid(e.source.IMMUNE_ID) };
+    case 'problemOnset':
+    case 'problemResolved': return { section: 'problems', id: sid(e.source.PROBLEM_LIST_ID) };
+    case 'message': return { section: 'messages', id: sid(e.source.MESSAGE_ID) };
+    case 'claim': return { section: 'billing.claims', id: sid(e.source.RECORD_ID) };
+    case 'payment': return { section: 'billing.payments', id: sid(e.source.TX_ID) };
+  }
+}
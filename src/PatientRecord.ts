@@ -11,8 +11,11 @@
  *   const billing = enc.billingVisit(record);
  *   const labs = enc.orders[1].allResults(record);
  *   const socialHx = record.socialHistory.latest();
+ *   const a1c = record.find({ type: 'labResult', component: /A1C/i });
  */
 
+import { normalizeEpicDateTime } from './datetime';
+
 // ─── Shared Types ──────────────────────────────────────────────────────────
 
 /** Any Epic row stored as raw key-value pairs */
@@ -37,6 +40,106 @@ export interface EpicDiagnosisRow extends EpicRow {
   LINE?: number;
 }
 
+/** An admit/discharge/transfer event (CLARITY_ADT) */
+export interface EpicAdtEventRow extends EpicRow {
+  EVENT_ID?: EpicID;
+  EVENT_TYPE_C_NAME?: string;     // "Admission", "Transfer In", "Discharge", ...
+  EVENT_SUBTYPE_C_NAME?: string;  // "Original", "Update", "Canceled"
+  EFFECTIVE_TIME?: string;
+  SEQ_NUM_IN_ENC?: number;
+  PAT_CLASS_C_NAME?: string;
+  PAT_SERVICE_C_NAME?: string;
+  _department?: string | null;    // enriched unit name from DEPARTMENT_ID
+  _room?: string | null;
+  _bed?: string | null;
+}
+
+/** A medication on the patient's list when the encounter took place (PAT_ENC_CURR_MEDS) */
+export interface EpicCurrentMedRow extends EpicRow {
+  PAT_ENC_CSN_ID?: CSN;
+  LINE?: number;
+  CURRENT_MED_ID?: EpicID;        // ORDER_MED.ORDER_MED_ID
+}
+
+/** Imaging modality of an order (ORDER_MODALITY_TYPE) */
+export interface EpicModalityRow extends EpicRow {
+  ORDER_ID?: EpicID;
+  LINE?: number;
+  MODALITY_TYPE_C_NAME?: string;  // "CT", "MR", "US", ...
+}
+
+/** Body region an imaging order covers (ORDER_ANATOMICAL_REGION) */
+export interface EpicAnatomicalRegionRow extends EpicRow {
+  ORDER_ID?: EpicID;
+  LINE?: number;
+  ANATOMICAL_REGION_C_NAME?: string;
+}
+
+/** RIS accession number of an imaging order (ORDER_RAD_ACC_NUM) */
+export interface EpicAccessionRow extends EpicRow {
+  ORDER_PROC_ID?: EpicID;
+  LINE?: number;
+  ACC_NUM?: string;
+}
+
+/** Radiologist who read an imaging order (ORDER_RAD_READING) */
+export interface EpicRadReadingRow extends EpicRow {
+  ORDER_PROC_ID?: EpicID;
+  LINE?: number;
+  PROV_ID?: EpicID;
+  _radiologist?: string | null;   // enriched name from PROV_ID lookup
+}
+
+/** Radiologist who finalized an imaging report (FINALIZE_PHYSICIAN) */
+export interface EpicFinalizePhysicianRow extends EpicRow {
+  ORDER_ID?: EpicID;
+  LINE?: number;
+  FINALIZE_PHYS_ID?: EpicID;
+  _radiologist?: string | null;   // enriched name from FINALIZE_PHYS_ID lookup
+}
+
+/** RIS signing of an imaging report (RIS_SGND_INFO) */
+export interface EpicRisSignedRow extends EpicRow {
+  ORDER_PROC_ID?: EpicID;
+  LINE?: number;
+  SIGNED_DTTM?: string;
+}
+
+/** A document linked to an order (ORDER_DOCUMENTS) */
+export interface EpicOrderDocumentRow extends EpicRow {
+  ORDER_ID?: EpicID;
+  LINE?: number;
+  DOCUMENT_ID?: EpicID;           // DOC_INFORMATION.DOC_INFO_ID
+}
+
+/** DICOM study behind an imaging document (DOC_INFO_DICOM) */
+export interface EpicDicomRow extends EpicRow {
+  DOCUMENT_ID?: EpicID;
+  LINE?: number;
+  STUDY_INSTANCE_UID?: string;
+}
+
+/** One answer on a questionnaire answer record, per contact (CL_QANSWER_OVTM) */
+export interface EpicQuestionnaireAnswerRow extends EpicRow {
+  ANSWER_ID?: EpicID;
+  CONTACT_DATE_REAL?: number;
+  LINE?: number;
+  QUEST_ID?: EpicID;
+  QUEST_ANSWER?: string;
+  _question?: string | null;      // enriched text from CL_QQUEST_OVTM
+}
+
+/** A questionnaire submission (QUESR_LST_ANS_INFO, MYC_MESG_QUESR_ANS) */
+export interface EpicQuestionnaireSubmissionRow extends EpicRow {
+  QUESR_ANS_ID?: EpicID;          // the answer record: CL_QANSWER.ANSWER_ID
+  QUESR_ANS_FORM_ID?: EpicID;
+  QUESR_ANS_FORM_ID_FORM_NAME?: string;
+  QUESR_ANS_CSN_ID?: CSN;
+  QUESR_ANS_DATETIME?: string;
+  _form_name?: string | null;
+  answers?: EpicQuestionnaireAnswerRow[];
+}
+
 /** An allergy reaction row */
 export interface EpicReactionRow extends EpicRow {
   REACTION_NAME?: string;
@@ -51,23 +154,28 @@ export interface EpicNoteTextRow extends EpicRow {
   CONTACT_DATE_REAL?: number;
 }
 
-/** A medication row (medications are still EpicRow[] on PatientRecord) */
-export interface EpicMedicationRow extends EpicRow {
+/** A verified pharmacy fill of a medication order (ORDER_RXVER_NOADSN) */
+export interface EpicDispenseRow extends EpicRow {
   ORDER_MED_ID?: EpicID;
-  AMB_MED_DISP_NAME?: string;
-  DISPLAY_NAME?: string;
-  DESCRIPTION?: string;
-  HV_DISCRETE_DOSE?: string;
-  HV_DOSE_UNIT_C_NAME?: string;
-  MED_ROUTE_C_NAME?: string;
-  HV_DISCR_FREQ_ID_FREQ_NAME?: string;
-  SIG?: string;
-  START_DATE?: string;
-  END_DATE?: string;
-  ORDER_STATUS_C_NAME?: string;
-  ORD_CREATR_USER_ID_NAME?: string;
+  LINE?: number;
+  DOCUMENT_ID?: EpicID;         // the dispense document; keys MED_DISPENSE_SIG
+  DISPENSE_DTTM?: string;
+  DISPENSE_QTY?: number;
+  DISPENSE_QTY_UNIT_C_NAME?: string;
   PHARMACY_ID_PHARMACY_NAME?: string;
-  associatedDiagnoses?: EpicDiagnosisRow[];
+  sig?: EpicRow[];              // MED_DISPENSE_SIG lines (SIG_TEXT)
+}
+
+/** A charted dose of a medication order (ORD_MED_ADMININSTR) */
+export interface EpicAdministrationRow extends EpicRow {
+  ORDER_MED_ID?: EpicID;
+  LINE?: number;
+  ADMIN_DTTM?: string;
+  ADMIN_ACTION_C_NAME?: string; // "Given", "Held", "Refused", ...
+  ADMIN_DOSE?: string;
+  ADMIN_DOSE_UNIT_C_NAME?: string;
+  ADMIN_ROUTE_C_NAME?: string;
+  ADMIN_USER_ID_NAME?: string;  // who charted the dose
 }
 
 /** An Epic entity ID */
@@ -154,24 +262,397 @@ export class Allergy {
 
 // ─── Problems ──────────────────────────────────────────────────────────────
 
+/** An earlier version of a problem (PROBLEM_LIST_HX) */
+export interface EpicProblemHistoryRow extends EpicRow {
+  PROBLEM_LIST_ID?: EpicID;
+  LINE?: number;
+  HX_DATE_OF_ENTRY?: string;
+  HX_STATUS_C_NAME?: string;
+}
+
 export class Problem {
   PROBLEM_LIST_ID: EpicID;
   diagnosisName?: string;
   dateOfEntry?: string;
+  notedDate?: string;
+  resolvedDate?: string;
   status?: string;
   chronicYN?: string;
   updates: EpicRow[] = [];
   bodySystems: EpicRow[] = [];
+  /** Earlier versions of the problem (PROBLEM_LIST_HX) */
+  history: EpicProblemHistoryRow[] = [];
 
   constructor(raw: EpicRow) {
     Object.assign(this, raw);
     this.PROBLEM_LIST_ID = raw.PROBLEM_LIST_ID as EpicID;
     this.diagnosisName = raw._dx_name as string;
     this.dateOfEntry = raw.DATE_OF_ENTRY as string;
+    this.notedDate = (raw.NOTED_DATE ?? raw.DATE_OF_ENTRY) as string;
+    this.resolvedDate = raw.RESOLVED_DATE as string;
     this.status = raw.PROBLEM_STATUS_C_NAME as string;
     this.chronicYN = raw.CHRONIC_YN as string;
     this.updates = (raw.updates as EpicRow[]) ?? [];
     this.bodySystems = (raw.body_systems as EpicRow[]) ?? [];
+    this.history = (raw.history as EpicProblemHistoryRow[]) ?? [];
+  }
+}
+
+// ─── Medications (ORDER_MED) ───────────────────────────────────────────────
+
+export class Medication {
+  ORDER_MED_ID: EpicID;
+  PAT_ENC_CSN_ID?: CSN;
+  name?: string;
+  genericName?: string;
+  dose?: string;
+  route?: string;
+  frequency?: string;
+  sig?: string;
+  orderedDate?: string;
+  startDate?: string;
+  endDate?: string;
+  status?: string;
+  prescriber?: string;
+  pharmacy?: string;
+  quantity?: string;
+  refills?: number;
+  refillsRemaining?: number;
+  dispenseAsWrittenYN?: string;
+  orderClass?: string;
+  orderingMode?: string;
+  priority?: string;
+  discontinuedTime?: string;
+  discontinuedReason?: string;
+  diagnoses: EpicDiagnosisRow[] = [];
+  signature: EpicRow[] = [];
+  dispenses: EpicDispenseRow[] = [];
+  administrations: EpicAdministrationRow[] = [];
+  coverageEstimates: EpicRow[] = [];
+
+  constructor(raw: EpicRow) {
+    Object.assign(this, raw);
+    this.ORDER_MED_ID = raw.ORDER_MED_ID as EpicID;
+    this.PAT_ENC_CSN_ID = raw.PAT_ENC_CSN_ID as CSN;
+    this.name = (raw.AMB_MED_DISP_NAME ?? raw.DISPLAY_NAME ?? raw.DESCRIPTION) as string;
+    this.genericName = (raw._generic_name ?? raw.GENERIC_NAME ?? raw.DESCRIPTION) as string;
+    const dose = [raw.HV_DISCRETE_DOSE, raw.HV_DOSE_UNIT_C_NAME].filter(v => v != null && v !== '');
+    this.dose = dose.length > 0 ? dose.join(' ') : undefined;
+    this.route = raw.MED_ROUTE_C_NAME as string;
+    this.frequency = raw.HV_DISCR_FREQ_ID_FREQ_NAME as string;
+    this.signature = (raw.signature as EpicRow[]) ?? [];
+    // ORDER_MED_SIG holds the full sig; fall back to the inline one
+    this.sig = (this.signature[0]?.SIG_TEXT ?? raw.SIG) as string;
+    this.orderedDate = raw.ORDERING_DATE as string;
+    this.startDate = raw.START_DATE as string;
+    this.endDate = raw.END_DATE as string;
+    this.status = raw.ORDER_STATUS_C_NAME as string;
+    this.prescriber = raw.ORD_CREATR_USER_ID_NAME as string;
+    this.pharmacy = raw.PHARMACY_ID_PHARMACY_NAME as string;
+    this.quantity = raw.QUANTITY as string;
+    this.refills = raw.REFILLS as number;
+    this.refillsRemaining = raw.REFILLS_REMAINING as number;
+    this.dispenseAsWrittenYN = raw.DISP_AS_WRITTEN_YN as string;
+    this.orderClass = raw.ORDER_CLASS_C_NAME as string;
+    this.orderingMode = raw.ORDERING_MODE_C_NAME as string;
+    this.priority = raw.ORDER_PRIORITY_C_NAME as string;
+    this.discontinuedTime = raw.DISCON_TIME as string;
+    this.discontinuedReason = raw.RSN_FOR_DISCON_C_NAME as string;
+    this.diagnoses = (raw.diagnoses as EpicDiagnosisRow[]) ?? [];
+    this.dispenses = (raw.dispenses as EpicDispenseRow[]) ?? [];
+    this.administrations = (raw.administrations as EpicAdministrationRow[]) ?? [];
+    this.coverageEstimates = (raw.coverage_estimates as EpicRow[]) ?? [];
+  }
+
+  /** The encounter the medication was ordered in */
+  encounter(record: PatientRecordRef): Encounter | undefined {
+    return this.PAT_ENC_CSN_ID ? record.encounterByCSN(this.PAT_ENC_CSN_ID) : undefined;
+  }
+
+  diagnosisNames(): string[] {
+    return this.diagnoses.map(d => d._dx_name ?? d.DX_NAME ?? String(d.DX_ID));
+  }
+}
+
+// ─── Immunizations (IMMUNE) ────────────────────────────────────────────────
+
+export class Immunization {
+  IMMUNE_ID: EpicID;
+  vaccine?: string;
+  date?: string;
+  site?: string;
+  route?: string;
+  dose?: string;
+  lotNumber?: string;
+  manufacturer?: string;
+  givenBy?: string;
+  enteredBy?: string;
+  status?: string;
+  product?: string;
+  ndcCode?: string;
+  expirationDate?: string;
+  source?: string;
+  encounterCSN?: CSN;
+  history: EpicRow[] = [];
+  administrations: EpicRow[] = [];
+  components: EpicRow[] = [];
+  groups: EpicRow[] = [];
+  dueForecast: EpicRow[] = [];
+
+  constructor(raw: EpicRow) {
+    Object.assign(this, raw);
+    this.IMMUNE_ID = raw.IMMUNE_ID as EpicID;
+    this.vaccine = raw.IMMUNZATN_ID_NAME as string;
+    this.date = raw.IMMUNE_DATE as string;
+    this.site = raw.SITE_C_NAME as string;
+    this.route = raw.ROUTE_C_NAME as string;
+    // Prefer the structured amount and unit ("0.5 mL") over free-text DOSE
+    this.dose = (raw.IMMNZTN_DOSE_AMOUNT != null && raw.IMMNZTN_DOSE_UNIT_C_NAME)
+      ? `${raw.IMMNZTN_DOSE_AMOUNT} ${raw.IMMNZTN_DOSE_UNIT_C_NAME}`
+      : raw.DOSE as string;
+    this.lotNumber = raw.LOT as string;
+    this.manufacturer = raw.MFG_C_NAME as string;
+    this.givenBy = raw.GIVEN_BY_USER_ID_NAME as string;
+    this.enteredBy = raw.ENTRY_USER_ID_NAME as string;
+    this.status = raw.IMMNZTN_STATUS_C_NAME as string;
+    this.product = raw.IMM_PRODUCT as string;
+    this.ndcCode = raw.NDC_NUM_ID_NDC_CODE as string;
+    this.expirationDate = raw.EXPIRATION_DATE as string;
+    this.source = raw.EXTERNAL_ADMIN_C_NAME as string;
+    this.encounterCSN = raw.IMM_CSN as CSN;
+    this.history = (raw.history as EpicRow[]) ?? [];
+    this.administrations = (raw.administrations as EpicRow[]) ?? [];
+    this.components = (raw.components as EpicRow[]) ?? [];
+    this.groups = (raw.groups as EpicRow[]) ?? [];
+    this.dueForecast = (raw.due_forecast as EpicRow[]) ?? [];
+  }
+
+  /** The encounter the dose was given or documented in */
+  encounter(record: PatientRecordRef): Encounter | undefined {
+    return this.encounterCSN ? record.encounterByCSN(this.encounterCSN) : undefined;
+  }
+}
+
+// ─── Coverage (COVERAGE) ───────────────────────────────────────────────────
+
+export class Coverage {
+  COVERAGE_ID: EpicID;
+  type?: string;
+  payorName?: string;
+  planName?: string;
+  groupName?: string;
+  groupNumber?: string;
+  effectiveDate?: string;
+  terminationDate?: string;
+  members: EpicRow[] = [];
+  serviceBenefits: ServiceBenefit[] = [];
+  copayDetails: EpicRow[] = [];
+  accountList: EpicRow[] = [];
+  sponsor: EpicRow[] = [];
+  subscriberAddress: EpicRow[] = [];
+
+  constructor(raw: EpicRow) {
+    Object.assign(this, raw);
+    this.COVERAGE_ID = raw.COVERAGE_ID as EpicID;
+    this.type = raw.COVERAGE_TYPE_C_NAME as string;
+    this.payorName = raw.PAYOR_NAME as string;
+    this.planName = raw.FREE_TXT_PLAN_NAME as string;
+    this.groupName = raw.GROUP_NAME as string;
+    this.groupNumber = raw.GROUP_NUM as string;
+    this.effectiveDate = raw.CVG_EFF_DT as string;
+    this.terminationDate = raw.CVG_TERM_DT as string;
+    this.members = (raw.member_list as EpicRow[]) ?? [];
+    this.serviceBenefits = ((raw.service_benefits as EpicRow[]) ?? []).map(sb => new ServiceBenefit(sb));
+    this.copayDetails = (raw.copay_details as EpicRow[]) ?? [];
+    this.accountList = (raw.account_list as EpicRow[]) ?? [];
+    this.sponsor = (raw.sponsor as EpicRow[]) ?? [];
+    this.subscriberAddress = (raw.subscriber_address as EpicRow[]) ?? [];
+  }
+
+  /** The subscriber's own member row, else the first member */
+  get subscriber(): EpicRow | undefined {
+    return this.members.find(m => m.MEM_REL_TO_SUB_C_NAME === 'Self') ?? this.members[0];
+  }
+
+  /** Guarantor accounts this coverage is attached to (ACCT_COVERAGE) */
+  guarantorAccounts(record: PatientRecordRef): GuarantorAccount[] {
+    return record.billing.guarantorAccounts.filter(a =>
+      a.coverageLinks.some(l => String(l.COVERAGE_ID) === String(this.COVERAGE_ID)));
+  }
+}
+
+// ─── Referrals (REFERRAL) ──────────────────────────────────────────────────
+
+/** A coverage the referral was authorized under (REFERRAL_CVG) */
+export interface EpicReferralCoverageRow extends EpicRow {
+  REFERRAL_ID?: EpicID;
+  LINE?: number;
+  CVG_ID?: EpicID;                // COVERAGE.COVERAGE_ID
+}
+
+export class Referral {
+  REFERRAL_ID: EpicID;
+  status?: string;
+  type?: string;
+  referralClass?: string;
+  specialty?: string;
+  referringProvider?: string;
+  referredToProvider?: string;
+  referredToSpecialty?: string;
+  referredToLocation?: string;
+  entryDate?: string;
+  expirationDate?: string;
+  serviceDate?: string;
+  reason?: string;
+  authorizedVisits?: number;
+  actualVisits?: number;
+  priority?: string;
+  schedulingStatus?: string;
+  preAuthRequired?: string;
+  closeReason?: string;
+  history: EpicRow[] = [];
+  diagnoses: EpicDiagnosisRow[] = [];
+  procedures: EpicRow[] = [];
+  notes: EpicRow[] = [];
+  reasons: EpicRow[] = [];
+  appointments: EpicRow[] = [];
+  coverageLinks: EpicReferralCoverageRow[] = [];
+  priorAuth: EpicRow[] = [];
+
+  constructor(raw: EpicRow) {
+    Object.assign(this, raw);
+    this.REFERRAL_ID = raw.REFERRAL_ID as EpicID;
+    this.status = raw.RFL_STATUS_C_NAME as string;
+    this.type = raw.RFL_TYPE_C_NAME as string;
+    this.referralClass = raw.RFL_CLASS_C_NAME as string;
+    this.specialty = raw.PROV_SPEC_C_NAME as string;
+    this.referringProvider = raw.REFERRING_PROV_ID_REFERRING_PROV_NAM as string;
+    this.referredToProvider = raw.REFERRAL_PROV_ID as string;
+    this.referredToSpecialty = raw.REFD_TO_SPEC_C_NAME as string;
+    this.referredToLocation = raw.REFD_TO_LOC_POS_ID as string;
+    this.entryDate = raw.ENTRY_DATE as string;
+    this.expirationDate = raw.EXP_DATE as string;
+    this.serviceDate = raw.SERV_DATE as string;
+    this.authorizedVisits = raw.AUTH_NUM_OF_VISITS as number;
+    this.actualVisits = raw.ACTUAL_NUM_VISITS as number;
+    this.priority = raw.PRIORITY_C_NAME as string;
+    this.schedulingStatus = raw.SCHED_STATUS_C_NAME as string;
+    this.preAuthRequired = raw.PREAUTH_REQ_C_NAME as string;
+    this.closeReason = raw.CLOSE_RSN_C_NAME as string;
+    this.history = (raw.history as EpicRow[]) ?? [];
+    this.diagnoses = (raw.diagnoses as EpicDiagnosisRow[]) ?? [];
+    this.procedures = (raw.procedures as EpicRow[]) ?? [];
+    this.notes = (raw.notes as EpicRow[]) ?? [];
+    this.reasons = (raw.reasons as EpicRow[]) ?? [];
+    this.appointments = (raw.appointments as EpicRow[]) ?? [];
+    this.coverageLinks = (raw.coverage as EpicReferralCoverageRow[]) ?? [];
+    this.priorAuth = (raw.prior_auth as EpicRow[]) ?? [];
+    this.reason = (this.reasons[0]?.REFERRAL_REASON_C_NAME ?? raw.RSN_FOR_RFL_C_NAME) as string;
+  }
+
+  /** Visits made on this referral: encounters carrying its ID */
+  encounters(record: PatientRecordRef): Encounter[] {
+    return record.encounters.filter(e =>
+      e.referralId != null && String(e.referralId) === String(this.REFERRAL_ID));
+  }
+
+  /** Coverages the referral was authorized under (REFERRAL_CVG) */
+  coverages(record: PatientRecordRef): Coverage[] {
+    return this.coverageLinks
+      .map(l => l.CVG_ID != null ? record.coverageByID(l.CVG_ID) : undefined)
+      .filter((c): c is Coverage => c !== undefined);
+  }
+}
+
+// ─── Documents (DOC_INFORMATION) ───────────────────────────────────────────
+
+/** An encounter the document refers to (DOC_CSN_REFS) */
+export interface EpicDocCsnRefRow extends EpicRow {
+  DOCUMENT_ID?: EpicID;
+  LINE?: number;
+  CSN_REF?: CSN;
+}
+
+export class ClinicalDocument {
+  DOC_INFO_ID: EpicID;
+  type?: string;
+  description?: string;
+  status?: string;
+  receivedTime?: string;
+  receivedBy?: string;
+  linkedPatients: EpicRow[] = [];
+  dicom: EpicRow[] = [];
+  csnRefs: EpicDocCsnRefRow[] = [];
+  receivedAllergies: EpicRow[] = [];
+  receivedAssessments: EpicRow[] = [];
+  receivedProcedures: EpicRow[] = [];
+
+  constructor(raw: EpicRow) {
+    Object.assign(this, raw);
+    this.DOC_INFO_ID = (raw.DOC_INFO_ID ?? raw.DOCUMENT_ID) as EpicID;
+    this.type = raw.DOC_INFO_TYPE_C_NAME as string;
+    this.description = raw.DOC_DESCR as string;
+    this.status = raw.DOC_STAT_C_NAME as string;
+    this.receivedTime = (raw.SCAN_INST_DTTM ?? raw.SCAN_TIME) as string;
+    this.receivedBy = raw.RECV_BY_USER_ID_NAME as string;
+    this.linkedPatients = (raw.linked_patients as EpicRow[]) ?? [];
+    this.dicom = (raw.dicom as EpicRow[]) ?? [];
+    this.csnRefs = (raw.csn_refs as EpicDocCsnRefRow[]) ?? [];
+    this.receivedAllergies = (raw.received_allergies as EpicRow[]) ?? [];
+    this.receivedAssessments = (raw.received_assessments as EpicRow[]) ?? [];
+    this.receivedProcedures = (raw.received_procedures as EpicRow[]) ?? [];
+  }
+
+  /** Encounters the document refers to (DOC_CSN_REFS) */
+  encounters(record: PatientRecordRef): Encounter[] {
+    return this.csnRefs
+      .map(ref => ref.CSN_REF != null ? record.encounterByCSN(ref.CSN_REF) : undefined)
+      .filter((e): e is Encounter => e !== undefined);
+  }
+
+  /** Orders that link to this document (ORDER_DOCUMENTS) */
+  orders(record: PatientRecordRef): Order[] {
+    return record.encounters.flatMap(e => e.orders).filter(o =>
+      o.linkedDocuments.some(d => String(d.DOCUMENT_ID) === String(this.DOC_INFO_ID)));
+  }
+}
+
+// ─── Episodes of Care (EPISODE) ────────────────────────────────────────────
+
+/** An encounter linked to the episode (ALL_EPISODE_CSN_LINKS) */
+export interface EpicEpisodeCsnLinkRow extends EpicRow {
+  EPISODE_ID?: EpicID;
+  LINE?: number;
+  PAT_ENC_CSN_ID?: CSN;
+}
+
+export class Episode {
+  EPISODE_ID: EpicID;
+  name?: string;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+  carePlans: EpicRow[] = [];
+  enrollments: EpicRow[] = [];
+  csnLinks: EpicEpisodeCsnLinkRow[] = [];
+
+  constructor(raw: EpicRow) {
+    Object.assign(this, raw);
+    this.EPISODE_ID = raw.EPISODE_ID as EpicID;
+    this.name = raw.NAME as string;
+    this.status = raw.STATUS_C_NAME as string;
+    this.startDate = raw.START_DATE as string;
+    this.endDate = raw.END_DATE as string;
+    this.carePlans = (raw.care_plans as EpicRow[]) ?? [];
+    this.enrollments = (raw.enrollments as EpicRow[]) ?? [];
+    this.csnLinks = (raw.csn_links as EpicEpisodeCsnLinkRow[]) ?? [];
+  }
+
+  /** Encounters linked to the episode (ALL_EPISODE_CSN_LINKS) */
+  encounters(record: PatientRecordRef): Encounter[] {
+    return this.csnLinks
+      .map(l => l.PAT_ENC_CSN_ID != null ? record.encounterByCSN(l.PAT_ENC_CSN_ID) : undefined)
+      .filter((e): e is Encounter => e !== undefined);
   }
 }
 
@@ -238,6 +719,15 @@ export class Order {
   comments: EpicRow[] = [];
   narrative: EpicRow[] = [];
   statusHistory: EpicRow[] = [];
+  // Imaging: populated for radiology orders, empty otherwise
+  impression: EpicRow[] = [];
+  modalityType: EpicModalityRow[] = [];
+  anatomicalRegions: EpicAnatomicalRegionRow[] = [];
+  accessionNumbers: EpicAccessionRow[] = [];
+  radReadings: EpicRadReadingRow[] = [];
+  finalizePhysician: EpicFinalizePhysicianRow[] = [];
+  risSignedInfo: EpicRisSignedRow[] = [];
+  linkedDocuments: EpicOrderDocumentRow[] = [];
 
   constructor(raw: EpicRow) {
     Object.assign(this, raw);
@@ -251,22 +741,73 @@ export class Order {
     this.results = ((raw.results as EpicRow[]) ?? []).map(r => new OrderResult(r));
     this.diagnoses = (raw.diagnoses as EpicDiagnosisRow[]) ?? [];
     this.comments = (raw.comments as EpicRow[]) ?? [];
+    this.impression = (raw.impression as EpicRow[]) ?? [];
+    this.modalityType = (raw.modality_type as EpicModalityRow[]) ?? [];
+    this.anatomicalRegions = (raw.anatomical_regions as EpicAnatomicalRegionRow[]) ?? [];
+    this.accessionNumbers = (raw.accession_numbers as EpicAccessionRow[]) ?? [];
+    this.radReadings = (raw.rad_readings as EpicRadReadingRow[]) ?? [];
+    this.finalizePhysician = (raw.finalize_physician as EpicFinalizePhysicianRow[]) ?? [];
+    this.risSignedInfo = (raw.ris_signed_info as EpicRisSignedRow[]) ?? [];
+    this.linkedDocuments = (raw.documents as EpicOrderDocumentRow[]) ?? [];
+  }
+
+  /**
+   * Radiology orders: anything with a modality, an accession number, a
+   * radiologist's read or RIS signing. Their results belong to the imaging
+   * study, not to the lab results.
+   */
+  isImaging(): boolean {
+    return this.modalityType.length > 0 || this.accessionNumbers.length > 0 ||
+      this.radReadings.length > 0 || this.risSignedInfo.length > 0;
+  }
+
+  /**
+   * DICOM rows for this study, found through the documents the order links
+   * to (ORDER_DOCUMENTS → DOC_INFORMATION → DOC_INFO_DICOM).
+   */
+  dicomStudies(record: PatientRecordRef): EpicDicomRow[] {
+    return this.linkedDocuments
+      .map(d => d.DOCUMENT_ID != null ? record.documentByID(d.DOCUMENT_ID) : undefined)
+      .flatMap(doc => (doc?.dicom as EpicDicomRow[] | undefined) ?? []);
+  }
+
+  /** Orders spawned from this one (ORDER_PARENT_INFO) */
+  children(record: PatientRecordRef): Order[] {
+    return record.orderParentLinks
+      .filter(link => String(link.PARENT_ORDER_ID) === String(this.ORDER_PROC_ID)
+        && String(link.ORDER_ID) !== String(this.ORDER_PROC_ID))
+      .map(link => record.orderByID(link.ORDER_ID))
+      .filter((o): o is Order => o !== undefined);
+  }
+
+  /** The order this one was spawned from, if any */
+  parent(record: PatientRecordRef): Order | undefined {
+    const link = record.orderParentLinks.find(l =>
+      String(l.ORDER_ID) === String(this.ORDER_PROC_ID)
+      && String(l.PARENT_ORDER_ID) !== String(this.ORDER_PROC_ID));
+    return link ? record.orderByID(link.PARENT_ORDER_ID) : undefined;
+  }
+
+  /** The top of the parent chain (this order when it has no parent) */
+  rootOrder(record: PatientRecordRef): Order {
+    let order: Order = this;
+    const seen = new Set<string>([String(order.ORDER_PROC_ID)]);
+    for (let p = order.parent(record); p && !seen.has(String(p.ORDER_PROC_ID)); p = p.parent(record)) {
+      seen.add(String(p.ORDER_PROC_ID));
+      order = p;
+    }
+    return order;
   }
 
   /**
    * All results, following the parent→child order chain.
    * Lab orders placed during office visits spawn child orders on a separate
-   * lab encounter. This follows ORDER_PARENT_INFO to find those results.
+   * lab encounter; their results are collected here with this order's own.
    */
-  allResults(record: PatientRecordRef): OrderResult[] {
-    if (this.results.length > 0) return this.results;
-    return record.orderParentLinks
-      .filter(link => link.PARENT_ORDER_ID === this.ORDER_PROC_ID
-        && link.ORDER_ID !== this.ORDER_PROC_ID)
-      .flatMap(link => {
-        const child = record.orderByID(link.ORDER_ID);
-        return child?.results ?? [];
-      });
+  allResults(record: PatientRecordRef, seen = new Set<string>()): OrderResult[] {
+    if (seen.has(String(this.ORDER_PROC_ID))) return [];
+    seen.add(String(this.ORDER_PROC_ID));
+    return [...this.results, ...this.children(record).flatMap(c => c.allResults(record, seen))];
   }
 
   /** Does this order have any results (direct or via child orders)? */
@@ -324,13 +865,18 @@ export class Encounter {
   encounterType?: string;
   visitProviderName?: string;
   departmentName?: string;
+  /** Referral the visit was made on */
+  referralId?: EpicID;
   diagnoses: EpicDiagnosisRow[] = [];
   reasonsForVisit: EpicRow[] = [];
   orders: Order[] = [];
+  /** Child orders spawned from this encounter's orders, placed on encounters outside the record */
+  childOrders: Order[] = [];
+  orderParentLinks: EpicRow[] = [];
   notes: Note[] = [];
   treatments: EpicRow[] = [];
   treatmentTeam: EpicRow[] = [];
-  currentMedsSnapshot: EpicRow[] = [];
+  currentMedsSnapshot: EpicCurrentMedRow[] = [];
   discontinuedMeds: EpicRow[] = [];
   addenda: EpicRow[] = [];
   attachedDocuments: EpicRow[] = [];
@@ -338,6 +884,8 @@ export class Encounter {
   appointment?: EpicRow;
   disposition?: EpicRow;
   inpatientData?: EpicRow;
+  /** Admit/discharge/transfer events, in the order they took effect */
+  adtEvents: EpicAdtEventRow[] = [];
 
   constructor(raw: EpicRow) {
     Object.assign(this, raw);
@@ -347,13 +895,16 @@ export class Encounter {
     this.encounterType = raw.ENC_TYPE_C_NAME as string; // audit:optional — not in every EHI export
     this.visitProviderName = raw._visit_provider as string;
     this.departmentName = (raw._department ?? raw.DEPARTMENT_NAME) as string;
+    this.referralId = raw.REFERRAL_ID as EpicID;
     this.diagnoses = (raw.diagnoses as EpicDiagnosisRow[]) ?? [];
     this.reasonsForVisit = (raw.reasons_for_visit as EpicRow[]) ?? [];
     this.orders = ((raw.orders as EpicRow[]) ?? []).map(o => new Order(o));
+    this.childOrders = ((raw.child_orders as EpicRow[]) ?? []).map(o => new Order(o));
+    this.orderParentLinks = (raw.order_parent_links as EpicRow[]) ?? [];
     this.notes = ((raw.notes as EpicRow[]) ?? []).map(n => new Note(n));
     this.treatments = (raw.treatments as EpicRow[]) ?? [];
     this.treatmentTeam = (raw.treatment_team as EpicRow[]) ?? [];
-    this.currentMedsSnapshot = (raw.current_meds_snapshot as EpicRow[]) ?? [];
+    this.currentMedsSnapshot = (raw.current_meds_snapshot as EpicCurrentMedRow[]) ?? [];
     this.discontinuedMeds = (raw.discontinued_meds as EpicRow[]) ?? [];
     this.addenda = (raw.addenda as EpicRow[]) ?? [];
     this.attachedDocuments = (raw.attached_documents as EpicRow[]) ?? [];
@@ -361,6 +912,10 @@ export class Encounter {
     this.appointment = raw.appointment as EpicRow;
     this.disposition = raw.disposition as EpicRow;
     this.inpatientData = raw.inpatient_data as EpicRow;
+    // EFFECTIVE_TIME is canonical ISO (sorts as text); SEQ_NUM_IN_ENC breaks ties
+    this.adtEvents = [...((raw.adt_events as EpicAdtEventRow[]) ?? [])].sort((a, b) =>
+      String(a.EFFECTIVE_TIME ?? '').localeCompare(String(b.EFFECTIVE_TIME ?? '')) ||
+      (a.SEQ_NUM_IN_ENC ?? 0) - (b.SEQ_NUM_IN_ENC ?? 0));
   }
 
   billingVisit(record: PatientRecordRef): BillingVisit | undefined {
@@ -413,7 +968,7 @@ export class Encounter {
   }
 
   toString(): string {
-    const parts = [this.contactDate?.substring(0, this.contactDate.indexOf(' ')) ?? 'unknown date'];
+    const parts = [this.contactDate?.slice(0, 10) ?? 'unknown date'];
     if (this.visitProviderName) parts.push(this.visitProviderName);
     if (this.encounterType) parts.push(`(${this.encounterType})`);
     const dxNames = this.diagnosisNames;
@@ -464,6 +1019,8 @@ export class BillingTransaction {
   txType?: string;
   amount?: number;
   postDate?: string;
+  /** Set once the transaction is voided; it stays in the ledger but leaves AR */
+  voidDate?: string;
   serviceDate?: string;
   ACCOUNT_ID?: EpicID;
   VISIT_NUMBER?: EpicID;
@@ -483,6 +1040,7 @@ export class BillingTransaction {
     this.txType = raw.TX_TYPE_C_NAME as string;
     this.amount = raw.AMOUNT as number;
     this.postDate = raw.POST_DATE as string;
+    this.voidDate = raw.VOID_DATE as string;
     this.serviceDate = raw.SERVICE_DATE as string;
     this.ACCOUNT_ID = raw.ACCOUNT_ID as EpicID;
     this.VISIT_NUMBER = raw.VISIT_NUMBER as EpicID;
@@ -675,10 +1233,20 @@ export class ServiceBenefit {
   copayAmount?: number;
   deductibleAmount?: number;
   deductibleMetAmount?: number;
+  deductibleRemaining?: number;
   coinsPercent?: number;
   outOfPocketMax?: number;
   outOfPocketRemaining?: number;
+  outOfPocketMetYN?: string;
   inNetworkYN?: string;
+  networkLevel?: string;
+  familyTier?: string;
+  maxVisits?: number;
+  remainingVisits?: number;
+  annualBenefitMax?: number;
+  annualBenefitRemaining?: number;
+  lifetimeBenefitMax?: number;
+  lifetimeBenefitRemaining?: number;
 
   constructor(raw: EpicRow) {
     Object.assign(this, raw);
@@ -686,10 +1254,20 @@ export class ServiceBenefit {
     this.copayAmount = raw.COPAY_AMOUNT as number;
     this.deductibleAmount = raw.DEDUCTIBLE_AMOUNT as number;
     this.deductibleMetAmount = raw.DEDUCTIBLE_MET_AMT as number;
+    this.deductibleRemaining = raw.DEDUCT_REMAIN_AMT as number;
     this.coinsPercent = raw.COINS_PERCENT as number;
     this.outOfPocketMax = raw.OUT_OF_POCKET_MAX as number;
     this.outOfPocketRemaining = raw.OUT_OF_PCKT_REMAIN as number;
+    this.outOfPocketMetYN = raw.OUT_OF_PCKET_MET_YN as string;
     this.inNetworkYN = raw.IN_NETWORK_YN as string;
+    this.networkLevel = raw.NET_LVL_SVC_C_NAME as string;
+    this.familyTier = raw.FAMILY_TIER_SVC_C_NAME as string;
+    this.maxVisits = raw.MAX_VISITS as number;
+    this.remainingVisits = raw.REMAINING_VISITS as number;
+    this.annualBenefitMax = raw.ANNUAL_BEN_MAX_AMT as number;
+    this.annualBenefitRemaining = raw.ANNUAL_BEN_REMAIN as number;
+    this.lifetimeBenefitMax = raw.LIFETIME_BEN_MAX as number;
+    this.lifetimeBenefitRemaining = raw.LIFETIME_BEN_REMAIN as number;
   }
 }
 
@@ -951,17 +1529,27 @@ export class Message {
   messageType?: string;
   senderName?: string;
   createdDate?: string;
+  subject?: string;
+  fromUser?: string;
+  toUser?: string;
   text: EpicRow[] = [];
   rtf_text: EpicRow[] = [];
   extracted_text?: string;
   threadId?: EpicID;
+  questionnaireAnswers: EpicQuestionnaireSubmissionRow[] = [];
 
   constructor(raw: EpicRow) {
     Object.assign(this, raw);
     this.MESSAGE_ID = raw.MESSAGE_ID as EpicID;
     this.messageType = raw.MSG_TYPE_C_NAME as string; // audit:optional — not in every EHI export
+    this.createdDate = (raw.CREATED_TIME ?? raw.CONTACT_DATE) as string;
+    this.subject = raw.SUBJECT as string;
+    this.fromUser = raw.FROM_USER_ID_NAME as string;
+    this.toUser = raw.TO_USER_ID_NAME as string;
+    this.threadId = raw._thread_id as EpicID;
     this.text = (raw.text as EpicRow[]) ?? [];
     this.rtf_text = (raw.rtf_text as EpicRow[]) ?? [];
+    this.questionnaireAnswers = (raw.questionnaire_answers as EpicQuestionnaireSubmissionRow[]) ?? [];
     if (typeof raw.extracted_text === 'string') this.extracted_text = raw.extracted_text;
   }
 
@@ -978,6 +1566,172 @@ export class Message {
     if (txt) return txt;
     return this.extracted_text ?? '';
   }
+
+  /**
+   * Which way the message went. MyChart messages have a clinician on one
+   * end only: one sent by a clinician (FROM_USER_ID) went to the patient,
+   * and one addressed to a clinician (TO_USER_ID) came from them.
+   */
+  get direction(): 'fromPatient' | 'toPatient' | undefined {
+    if (this.fromUser) return 'toPatient';
+    if (this.toUser) return 'fromPatient';
+    return undefined;
+  }
+
+  conversation(record: PatientRecordRef): Conversation | undefined {
+    return this.threadId != null ? record.conversationByID(this.threadId) : undefined;
+  }
+}
+
+// ─── Conversations (MYC_CONVO) ─────────────────────────────────────────────
+
+/** A clinician on a MyChart thread (MYC_CONVO_USERS) */
+export interface EpicConvoUserRow extends EpicRow {
+  THREAD_ID?: EpicID;
+  LINE?: number;
+  USER_ID?: string;
+  USER_ID_NAME?: string;
+}
+
+/**
+ * A MyChart conversation thread: the messages exchanged, who could see and
+ * reply to it, and the encounters it was attached to.
+ */
+export class Conversation {
+  THREAD_ID: EpicID;
+  messageLinks: EpicRow[] = [];
+  viewers: EpicRow[] = [];
+  users: EpicConvoUserRow[] = [];
+  audience: EpicRow[] = [];
+  encounterLinks: EpicRow[] = [];
+  ibThread: EpicRow[] = [];
+  medAdvice: EpicRow[] = [];
+  customerService: EpicRow[] = [];
+
+  constructor(raw: EpicRow) {
+    Object.assign(this, raw);
+    this.THREAD_ID = raw.THREAD_ID as EpicID;
+    this.messageLinks = (raw.messages as EpicRow[]) ?? [];
+    this.viewers = (raw.viewers as EpicRow[]) ?? [];
+    this.users = (raw.users as EpicConvoUserRow[]) ?? [];
+    this.audience = (raw.audience as EpicRow[]) ?? [];
+    this.encounterLinks = (raw.encounter_links as EpicRow[]) ?? [];
+    this.ibThread = (raw.ib_thread as EpicRow[]) ?? [];
+    this.medAdvice = (raw.med_advice as EpicRow[]) ?? [];
+    this.customerService = (raw.customer_service as EpicRow[]) ?? [];
+  }
+
+  /** What the thread is about, from which MYC_CONVO_ABT_* table has rows for it */
+  get topic(): string | undefined {
+    if (this.medAdvice.length > 0) return 'Medical Advice';
+    if (this.customerService.length > 0) return 'Customer Service';
+    return undefined;
+  }
+
+  /** The thread's messages, oldest first */
+  allMessages(record: PatientRecordRef): Message[] {
+    return this.messageLinks
+      .map(l => record.messageByID(l.MESSAGE_ID as EpicID))
+      .filter((m): m is Message => m !== undefined)
+      .sort((a, b) => (a.createdDate ?? '').localeCompare(b.createdDate ?? ''));
+  }
+
+  /** Subject line of the first message that has one */
+  subject(record: PatientRecordRef): string | undefined {
+    return this.allMessages(record).find(m => m.subject)?.subject;
+  }
+
+  /** Clinicians on the thread: its users, then whoever sent or received its messages */
+  participants(record: PatientRecordRef): string[] {
+    const names = [
+      ...this.users.map(u => u.USER_ID_NAME),
+      ...this.allMessages(record).map(m => m.fromUser ?? m.toUser),
+    ];
+    return [...new Set(names.filter((n): n is string => !!n))];
+  }
+
+  linkedEncounters(record: PatientRecordRef): Encounter[] {
+    return this.encounterLinks
+      .map(l => record.encounterByCSN(l.PAT_ENC_CSN_ID as CSN))
+      .filter((e): e is Encounter => e !== undefined);
+  }
+}
+
+// ─── Health Maintenance (HM_*) ─────────────────────────────────────────────
+
+/** A patient's standing on one health maintenance topic (PATIENT_HMT_STATUS) */
+export interface EpicHmStatusRow extends EpicRow {
+  PAT_ID?: string;
+  LINE?: number;
+  QUALIFIED_HMT_ID?: EpicID;       // CLARITY_HM_TOPIC.HM_TOPIC_ID
+  HMT_DUE_STATUS_C_NAME?: string;  // "Due Soon", "Overdue", "Not Due", ...
+  IDEAL_RETURN_DT?: string;
+  _topic_name?: string | null;
+}
+
+/** An event that satisfied a health maintenance topic (HM_HISTORY) */
+export interface EpicHmHistoryRow extends EpicRow {
+  PAT_ID?: string;
+  LINE?: number;
+  HM_TOPIC_ID?: EpicID;
+  HM_HX_DATE?: string;
+  HM_TYPE_C_NAME?: string;         // "Done", "Postponed", "Done Elsewhere", ...
+  _topic_name?: string | null;
+}
+
+/** When a health maintenance topic is next due (HM_FORECAST_INFO) */
+export interface EpicHmForecastRow extends EpicRow {
+  PAT_ID?: string;
+  LINE?: number;
+  HM_TOPIC_ID?: EpicID;
+  _topic_name?: string | null;
+}
+
+/**
+ * Preventive care reminders: per-topic status, completion history and the
+ * forecast of when each topic is next due. Topic names are resolved onto
+ * each row as `_topic_name`.
+ */
+export class HealthMaintenance {
+  topicStatus: EpicHmStatusRow[] = [];
+  history: EpicHmHistoryRow[] = [];
+  forecast: EpicHmForecastRow[] = [];
+  currentGuides: EpicRow[] = [];
+  historicalStatus: EpicRow[] = [];
+
+  constructor(raw: EpicRow) {
+    this.topicStatus = (raw.topic_status as EpicHmStatusRow[]) ?? [];
+    this.history = (raw.history as EpicHmHistoryRow[]) ?? [];
+    this.forecast = (raw.forecast as EpicHmForecastRow[]) ?? [];
+    this.currentGuides = (raw.current_guides as EpicRow[]) ?? [];
+    this.historicalStatus = (raw.historical_status as EpicRow[]) ?? [];
+  }
+
+  /** Every topic with a status or forecast row, in first-seen order */
+  topicIds(): EpicID[] {
+    const ids = [...this.topicStatus.map(r => r.QUALIFIED_HMT_ID), ...this.forecast.map(r => r.HM_TOPIC_ID)];
+    return [...new Set(ids.filter((id): id is EpicID => id != null).map(String))];
+  }
+
+  statusFor(topicId: EpicID): EpicHmStatusRow | undefined {
+    return this.topicStatus.find(r => String(r.QUALIFIED_HMT_ID) === String(topicId));
+  }
+
+  forecastFor(topicId: EpicID): EpicHmForecastRow | undefined {
+    return this.forecast.find(r => String(r.HM_TOPIC_ID) === String(topicId));
+  }
+
+  /** Completions and other satisfying events for a topic, oldest first */
+  historyFor(topicId: EpicID): EpicHmHistoryRow[] {
+    return this.history
+      .filter(r => String(r.HM_TOPIC_ID) === String(topicId))
+      .sort((a, b) => (isoDateTime(a.HM_HX_DATE) ?? '').localeCompare(isoDateTime(b.HM_HX_DATE) ?? ''));
+  }
+
+  topicName(topicId: EpicID): string | undefined {
+    const rows = [this.statusFor(topicId), this.forecastFor(topicId), ...this.historyFor(topicId)];
+    return rows.map(r => r?._topic_name ?? undefined).find(n => n != null);
+  }
 }
 
 // ─── Billing aggregate ─────────────────────────────────────────────────────
@@ -993,42 +1747,370 @@ export interface BillingRecord {
   reconciliations: ClaimReconciliation[];
 }
 
+// ─── Query ─────────────────────────────────────────────────────────────────
+
+/** What PatientRecord.find() can return, by `type` */
+export interface QueryEntityTypes {
+  encounter: Encounter;
+  diagnosis: EpicDiagnosisRow;
+  order: Order;
+  labResult: OrderResult;
+  note: Note;
+  message: Message;
+  problem: Problem;
+  allergy: Allergy;
+  medication: Medication;
+  immunization: Immunization;
+  document: ClinicalDocument;
+  referral: Referral;
+  episode: Episode;
+}
+
+export type QueryEntityType = keyof QueryEntityTypes;
+
+/** Strings match as case-insensitive substrings */
+export type QueryPattern = string | RegExp;
+
+export interface RecordQuery<K extends QueryEntityType = QueryEntityType> {
+  type?: K | K[];
+  /** Inclusive date bounds (ISO or Epic display strings); undated entities never match a bound */
+  from?: string | Date;
+  to?: string | Date;
+  /** Display name: diagnosis, lab component, medication, order description, ... */
+  name?: QueryPattern;
+  /** Lab component name; only lab results match */
+  component?: QueryPattern;
+  /** Name or free text: note text, message body, sig, result value */
+  text?: QueryPattern;
+  /** Only entities recorded during this encounter */
+  encounter?: CSN;
+}
+
+/** One matched entity, with the date, name and text it was matched on */
+export interface QueryHit<K extends QueryEntityType = QueryEntityType> {
+  type: K;
+  entity: QueryEntityTypes[K];
+  /** Calendar date (YYYY-MM-DD), when the entity has one */
+  date?: string;
+  name?: string;
+  text: string;
+  encounter?: Encounter;
+}
+
+function queryDate(v: unknown): string | undefined {
+  if (v instanceof Date) return isNaN(v.getTime()) ? undefined : v.toISOString().slice(0, 10);
+  return isoDateTime(v)?.slice(0, 10);
+}
+
+function queryBound(v: string | Date | undefined, label: string): string | undefined {
+  if (v == null) return undefined;
+  const date = queryDate(v);
+  if (!date) throw new Error(`Invalid query date for ${label}: ${String(v)}`);
+  return date;
+}
+
+function queryMatch(pattern: QueryPattern, s: string | undefined): boolean {
+  if (!s) return false;
+  if (typeof pattern === 'string') return s.toLowerCase().includes(pattern.toLowerCase());
+  pattern.lastIndex = 0; // global/sticky patterns are stateful
+  return pattern.test(s);
+}
+
+/** Every queryable entity on the record, in date order (undated last) */
+function collectQueryHits(record: PatientRecord): QueryHit[] {
+  const hits: QueryHit[] = [];
+  const add = <K extends QueryEntityType>(
+    type: K, entity: QueryEntityTypes[K], date: unknown, name?: string, text?: string, encounter?: Encounter,
+  ) => {
+    hits.push({
+      type, entity, date: queryDate(date), name, encounter,
+      text: [name, text].filter(Boolean).join('\n'),
+    } as QueryHit);
+  };
+
+  for (const enc of record.encounters) {
+    add('encounter', enc, enc.contactDate, enc.encounterType ?? enc.departmentName, undefined, enc);
+    for (const dx of enc.diagnoses) {
+      add('diagnosis', dx, enc.contactDate, dx._dx_name ?? dx.DX_NAME, undefined, enc);
+    }
+    for (const order of [...enc.orders, ...enc.childOrders]) {
+      add('order', order, order.orderDate, order.description ?? order.procedureName, undefined, enc);
+      if (order.isImaging()) continue;
+      for (const res of order.results) {
+        add('labResult', res, res.resultDate ?? order.orderDate, res.componentName, res.value, enc);
+      }
+    }
+    for (const note of enc.notes) {
+      add('note', note, note.createdDate ?? enc.contactDate, note.noteType, note.plainText, enc);
+    }
+  }
+  for (const m of record.messages) {
+    add('message', m, m.createdDate, m.messageType, m.plainText, m.linkedEncounters(record)[0]);
+  }
+  for (const p of record.problems) add('problem', p, p.dateOfEntry, p.diagnosisName);
+  for (const a of record.allergies) {
+    add('allergy', a, a.dateNoted, a.allergenName, a.reaction, a.notedDuringEncounter(record));
+  }
+  for (const m of record.medications) add('medication', m, m.startDate, m.name, m.sig, m.encounter(record));
+  for (const i of record.immunizations) add('immunization', i, i.date, i.vaccine, undefined, i.encounter(record));
+  for (const d of record.documents) add('document', d, d.receivedTime, d.description ?? d.type);
+  for (const r of record.referrals) add('referral', r, r.entryDate, r.referredToSpecialty ?? r.specialty, r.reason);
+  for (const e of record.episodes) add('episode', e, e.startDate, e.name);
+
+  // Stable sort keeps same-day entities in record order
+  return hits.sort((a, b) => a.date === b.date ? 0 : a.date == null ? 1 : b.date == null ? -1 : a.date.localeCompare(b.date));
+}
+
+// ─── Timeline ──────────────────────────────────────────────────────────────
+
+/** The entity behind each kind of timeline event */
+export interface TimelineSources {
+  visit: Encounter;
+  order: Order;
+  result: OrderResult;
+  note: Note;
+  medicationStart: Medication;
+  medicationStop: Medication;
+  immunization: Immunization;
+  problemOnset: Problem;
+  problemResolved: Problem;
+  message: Message;
+  claim: BillingClaim;
+  payment: BillingTransaction;
+}
+
+export type TimelineEventKind = keyof TimelineSources;
+
+/** One dated event; checking `kind` narrows `source` to its entity class */
+export type TimelineEvent = {
+  [K in TimelineEventKind]: {
+    kind: K;
+    /** Canonical ISO: "2023-09-28" for date-only values, else a date-time */
+    date: string;
+    label: string;
+    source: TimelineSources[K];
+    encounter?: Encounter;
+  }
+}[TimelineEventKind];
+
+function collectTimeline(record: PatientRecord): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  const add = <K extends TimelineEventKind>(
+    kind: K, date: unknown, label: string | undefined, source: TimelineSources[K], encounter?: Encounter,
+  ) => {
+    const iso = isoDateTime(date);
+    if (iso) events.push({ kind, date: iso, label: label ?? kind, source, encounter } as TimelineEvent);
+  };
+
+  // Clinical visits only: other contacts carry no orders and no note text
+  for (const enc of record.visits()) {
+    add('visit', enc.contactDate, enc.encounterType ?? enc.departmentName ?? 'Visit', enc, enc);
+    for (const order of enc.orders) {
+      add('order', order.orderDate, order.description ?? order.procedureName, order, enc);
+    }
+    // Child orders placed elsewhere have no order event of their own, only results
+    for (const order of [...enc.orders, ...enc.childOrders]) {
+      for (const res of order.results) add('result', res.resultDate ?? order.orderDate, res.toString(), res, enc);
+    }
+    for (const note of enc.notes) {
+      add('note', note.createdDate ?? enc.contactDate, note.noteType ?? 'Note', note, enc);
+    }
+  }
+  for (const m of record.medications) {
+    add('medicationStart', m.startDate, m.name, m, m.encounter(record));
+    add('medicationStop', m.discontinuedTime ?? m.endDate, m.name, m, m.encounter(record));
+  }
+  for (const i of record.immunizations) add('immunization', i.date, i.vaccine, i, i.encounter(record));
+  for (const p of record.problems) {
+    add('problemOnset', p.notedDate, p.diagnosisName, p);
+    add('problemResolved', p.resolvedDate, p.diagnosisName, p);
+  }
+  for (const m of record.messages) {
+    add('message', m.createdDate, m.messageType ?? 'Message', m, m.linkedEncounters(record)[0]);
+  }
+  for (const c of record.billing.claims) {
+    add('claim', c.createDate, c.claimCoveragePayerName ?? c.invoiceNumber ?? 'Claim', c);
+  }
+  for (const tx of record.billing.transactions) {
+    if (tx.txType === 'Payment') add('payment', tx.postDate ?? tx.serviceDate, 'Payment', tx);
+  }
+
+  // Stable sort keeps same-time events in the order added above
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ─── Point in time ─────────────────────────────────────────────────────────
+
+/** An update to an allergy on the patient's list (PATIENT_ALG_UPD_HX) */
+export interface EpicAllergyUpdateRow extends EpicRow {
+  PAT_ID?: string;
+  LINE?: number;
+  ALLERGY_RECORD_ID?: EpicID;     // ALLERGY.ALLERGY_ID, as on PAT_ALLERGIES
+  ALRG_UPDT_DTTM?: string;
+}
+
+/** A review of the patient's medication list (MEDS_REV_HX) */
+export interface EpicMedReviewRow extends EpicRow {
+  PAT_ID?: string;
+  LINE?: number;
+  MEDS_HX_REV_INSTANT?: string;
+  MEDS_HX_REV_CSN?: CSN;          // encounter the list was reviewed in
+}
+
+/** What the record showed on a given day (PatientRecord.asOf) */
+export interface PointInTimeView {
+  /** The day, as YYYY-MM-DD; everything dated on it counts as known */
+  date: string;
+  activeProblems: Problem[];
+  activeMedications: Medication[];
+  allergies: Allergy[];
+  socialHistory?: EpicRow;
+  /**
+   * Professional billing balance: ARPB transactions posted by the end of the
+   * day and not yet voided. Hospital account (HSP) transactions are not included.
+   */
+  professionalBalance: number;
+  /** Last allergy list update on or before the day (PATIENT_ALG_UPD_HX) */
+  allergiesReviewed?: string;
+  /** Last medication list review on or before the day (MEDS_REV_HX) */
+  medicationsReviewed?: string;
+}
+
+const onOrBefore = (v: unknown, day: string) => {
+  const d = queryDate(v);
+  return d != null && d <= day;
+};
+
+/** The latest of the rows dated on or before the day */
+function latestOn<T>(rows: T[], dateOf: (row: T) => unknown, day: string): T | undefined {
+  return rows
+    .filter(r => onOrBefore(dateOf(r), day))
+    .sort((a, b) => String(isoDateTime(dateOf(a))).localeCompare(String(isoDateTime(dateOf(b)))))
+    .at(-1);
+}
+
+/**
+ * A problem's status on the day, or undefined if it wasn't on the list yet.
+ * PROBLEM_LIST_HX holds each earlier version; without one, fall back to the
+ * noted and resolved dates. A deleted problem with no history has no known
+ * deletion date and was most likely entered in error, so it stays deleted.
+ */
+function problemStatusOn(p: Problem, day: string): string | undefined {
+  if (!onOrBefore(p.notedDate, day)) return undefined;
+  const version = latestOn(p.history, h => h.HX_DATE_OF_ENTRY, day);
+  if (version) return version.HX_STATUS_C_NAME ?? 'Active';
+  if (onOrBefore(p.resolvedDate, day)) return 'Resolved';
+  return p.status === 'Deleted' ? 'Deleted' : 'Active';
+}
+
+/**
+ * Whether the allergy was on the list on the day. It joins the list when
+ * noted, or at its first update if it has no noted date. A deleted allergy's
+ * last update is its deletion, so it stays on the list until then; with no
+ * updates the deletion date is unknown and, as for problems, it stays deleted.
+ */
+function allergyOnListOn(a: Allergy, updates: EpicAllergyUpdateRow[], day: string): boolean {
+  const times = updates.map(u => isoDateTime(u.ALRG_UPDT_DTTM)).filter((t): t is string => t != null).sort();
+  if (!onOrBefore(a.dateNoted ?? times[0], day)) return false;
+  if (a.status !== 'Deleted') return true;
+  return times.length > 0 && !onOrBefore(times.at(-1), day);
+}
+
+/**
+ * Medications on the list on the day. The latest medication review by then
+ * recorded the list on its encounter (PAT_ENC_CURR_MEDS); orders started
+ * after the review are added from their start dates. Without a review in the
+ * record, the list comes from start dates alone. Either way, orders ended
+ * or discontinued by the day are off the list.
+ */
+function medicationsOn(record: PatientRecord, reviews: EpicMedReviewRow[], day: string): Medication[] {
+  const stillOn = (m: Medication) => !onOrBefore(m.discontinuedTime, day) && !onOrBefore(m.endDate, day);
+  const started = (m: Medication, after?: string) =>
+    onOrBefore(m.startDate ?? m.orderedDate, day) && !(after && onOrBefore(m.startDate ?? m.orderedDate, after));
+
+  const review = latestOn(
+    reviews.filter(r => r.MEDS_HX_REV_CSN != null && record.encounterByCSN(r.MEDS_HX_REV_CSN)),
+    r => r.MEDS_HX_REV_INSTANT, day);
+  if (!review) return record.medications.filter(m => started(m) && stillOn(m));
+
+  const reviewDay = queryDate(review.MEDS_HX_REV_INSTANT)!;
+  const listed = new Set(record.encounterByCSN(review.MEDS_HX_REV_CSN!)!.currentMedsSnapshot
+    .map(c => String(c.CURRENT_MED_ID)));
+  return record.medications.filter(m =>
+    (listed.has(String(m.ORDER_MED_ID)) || started(m, reviewDay)) && stillOn(m));
+}
+
+function buildPointInTimeView(record: PatientRecord, day: string): PointInTimeView {
+  const patient = record.patient;
+  const allergyUpdates = (patient.allergy_update_history as EpicAllergyUpdateRow[]) ?? [];
+  const medReviews = (patient.medication_review_history as EpicMedReviewRow[]) ?? [];
+  return {
+    date: day,
+    activeProblems: record.problems.filter(p => {
+      const status = problemStatusOn(p, day);
+      return status != null && status !== 'Deleted' && status !== 'Resolved';
+    }),
+    activeMedications: medicationsOn(record, medReviews, day),
+    allergies: record.allergies.filter(a => allergyOnListOn(a,
+      allergyUpdates.filter(u => String(u.ALLERGY_RECORD_ID) === String(a.ALLERGY_ID)), day)),
+    // Not asOfDate(): contact dates may be Epic display strings
+    socialHistory: [...record.socialHistory.snapshots].reverse()
+      .find(s => onOrBefore(s.contactDate, day))?.data,
+    // A voided charge is replaced by its repost, so counting both would double it
+    professionalBalance: record.billing.transactions
+      .filter(tx => onOrBefore(tx.postDate, day) && !onOrBefore(tx.voidDate, day))
+      .reduce((sum, tx) => sum + (Number(tx.amount) || 0), 0),
+    allergiesReviewed: isoDateTime(latestOn(allergyUpdates, u => u.ALRG_UPDT_DTTM, day)?.ALRG_UPDT_DTTM),
+    medicationsReviewed: isoDateTime(latestOn(medReviews, r => r.MEDS_HX_REV_INSTANT, day)?.MEDS_HX_REV_INSTANT),
+  };
+}
+
 // ─── Patient Record ────────────────────────────────────────────────────────
 
 export class PatientRecord {
   patient: EpicRow;
   allergies: Allergy[];
   problems: Problem[];
-  medications: EpicMedicationRow[];
-  immunizations: EpicRow[];
-  coverage: EpicRow[];
-  referrals: EpicRow[];
-  documents: EpicRow[];
-  episodes: EpicRow[];
+  medications: Medication[];
+  immunizations: Immunization[];
+  coverage: Coverage[];
+  referrals: Referral[];
+  documents: ClinicalDocument[];
+  episodes: Episode[];
   socialHistory: HistoryTimeline<EpicRow>;
   surgicalHistory: HistoryTimeline<EpicRow>;
   familyHistory: HistoryTimeline<EpicRow>;
+  healthMaintenance: HealthMaintenance;
 
   /** Raw projection data for fields not yet promoted to typed accessors */
   _raw: Record<string, unknown>;
   encounters: Encounter[];
   billing: BillingRecord;
   messages: Message[];
+  conversations: Conversation[];
 
   encounterMessageLinks: Array<{ PAT_ENC_CSN_ID: CSN; MESSAGE_ID: EpicID }>;
   orderParentLinks: Array<{ ORDER_ID: EpicID; PARENT_ORDER_ID: EpicID; PAT_ENC_CSN_ID?: CSN }>;
 
   // Index maps
   private _encountersByCSN: Map<CSN, Encounter>;
-  private _ordersByID: Map<EpicID, Order>;
+  private _ordersByID: Map<string, Order>;
+  private _documentsByID: Map<string, ClinicalDocument>;
+  private _medicationsByID: Map<string, Medication>;
+  private _coverageByID: Map<string, Coverage>;
+  private _referralsByID: Map<string, Referral>;
+  private _episodesByID: Map<string, Episode>;
+  private _messagesByID: Map<string, Message>;
+  private _conversationsByID: Map<string, Conversation>;
+  private _queryHits?: QueryHit[];
 
   constructor(json: EpicRow) {
     // Patient demographics: everything that isn't a known collection key
     const collectionKeys = new Set([
       'allergies', 'problems', 'medications', 'immunizations', 'coverage',
       'referrals', 'documents', 'episodes',
-      'social_history', 'surgical_history', 'family_history',
-      'encounters', 'billing', 'messages',
+      'social_history', 'surgical_history', 'family_history', 'health_maintenance',
+      'encounters', 'billing', 'messages', 'conversation_threads',
     ]);
     this.patient = {};
     for (const [k, v] of Object.entries(json)) {
@@ -1038,23 +2120,20 @@ export class PatientRecord {
     // Hydrate typed collections
     this.allergies = ((json.allergies as EpicRow[]) ?? []).map(r => new Allergy(r));
     this.problems = ((json.problems as EpicRow[]) ?? []).map(r => new Problem(r));
-    this.medications = (json.medications as EpicMedicationRow[]) ?? [];
-    this.immunizations = (json.immunizations as EpicRow[]) ?? [];
-    this.coverage = ((json.coverage as EpicRow[]) ?? []).map(c => {
-      if (Array.isArray(c.service_benefits)) {
-        c.service_benefits = (c.service_benefits as EpicRow[]).map(sb => new ServiceBenefit(sb));
-      }
-      return c;
-    });
-    this.referrals = (json.referrals as EpicRow[]) ?? [];
-    this.documents = (json.documents as EpicRow[]) ?? [];
-    this.episodes = (json.episodes as EpicRow[]) ?? [];
+    this.medications = ((json.medications as EpicRow[]) ?? []).map(m => new Medication(m));
+    this.immunizations = ((json.immunizations as EpicRow[]) ?? []).map(i => new Immunization(i));
+    this.coverage = ((json.coverage as EpicRow[]) ?? []).map(c => new Coverage(c));
+    this.referrals = ((json.referrals as EpicRow[]) ?? []).map(r => new Referral(r));
+    this.documents = ((json.documents as EpicRow[]) ?? []).map(d => new ClinicalDocument(d));
+    this.episodes = ((json.episodes as EpicRow[]) ?? []).map(e => new Episode(e));
 
     // History timelines
     this.socialHistory = buildTimeline((json.social_history as EpicRow[]) ?? []);
     this.surgicalHistory = buildTimeline((json.surgical_history as EpicRow[]) ?? []);
     this.familyHistory = buildTimeline((json.family_history as EpicRow[]) ?? []);
 
+    this.healthMaintenance = new HealthMaintenance((json.health_maintenance as EpicRow) ?? {});
+
     // Preserve raw projection data for the clean HealthRecord projection
     this._raw = {
       family_hx: json.family_hx ?? [],
@@ -1078,6 +2157,7 @@ export class PatientRecord {
 
     // Messages
     this.messages = ((json.messages as EpicRow[]) ?? []).map(m => new Message(m));
+    this.conversations = ((json.conversation_threads as EpicRow[]) ?? []).map(c => new Conversation(c));
 
     // Bridge tables (extracted from encounter _billing_visit and mychart_message_links)
     this.encounterMessageLinks = this.encounters.flatMap(e =>
@@ -1087,14 +2167,27 @@ export class PatientRecord {
       }))
     );
 
-    // Order parent links (collected from all orders)
-    this.orderParentLinks = [];
+    // Order parent links (collected from every encounter's ORDER_PARENT_INFO rows)
+    this.orderParentLinks = this.encounters.flatMap(e =>
+      e.orderParentLinks.map(l => ({
+        ORDER_ID: l.ORDER_ID as EpicID,
+        PARENT_ORDER_ID: l.PARENT_ORDER_ID as EpicID,
+        PAT_ENC_CSN_ID: e.PAT_ENC_CSN_ID,
+      }))
+    );
 
     // Build indexes
     this._encountersByCSN = new Map(this.encounters.map(e => [e.PAT_ENC_CSN_ID, e]));
     this._ordersByID = new Map(
-      this.encounters.flatMap(e => e.orders.map(o => [o.ORDER_PROC_ID, o]))
+      this.encounters.flatMap(e => [...e.orders, ...e.childOrders].map(o => [String(o.ORDER_PROC_ID), o]))
     );
+    this._documentsByID = new Map(this.documents.map(d => [String(d.DOC_INFO_ID), d]));
+    this._medicationsByID = new Map(this.medications.map(m => [String(m.ORDER_MED_ID), m]));
+    this._coverageByID = new Map(this.coverage.map(c => [String(c.COVERAGE_ID), c]));
+    this._referralsByID = new Map(this.referrals.map(r => [String(r.REFERRAL_ID), r]));
+    this._episodesByID = new Map(this.episodes.map(e => [String(e.EPISODE_ID), e]));
+    this._messagesByID = new Map(this.messages.map(m => [String(m.MESSAGE_ID), m]));
+    this._conversationsByID = new Map(this.conversations.map(c => [String(c.THREAD_ID), c]));
   }
 
   encounterByCSN(csn: CSN): Encounter | undefined {
@@ -1102,7 +2195,35 @@ export class PatientRecord {
   }
 
   orderByID(id: EpicID): Order | undefined {
-    return this._ordersByID.get(id);
+    return this._ordersByID.get(String(id));
+  }
+
+  documentByID(id: EpicID): ClinicalDocument | undefined {
+    return this._documentsByID.get(String(id));
+  }
+
+  medicationByID(id: EpicID): Medication | undefined {
+    return this._medicationsByID.get(String(id));
+  }
+
+  coverageByID(id: EpicID): Coverage | undefined {
+    return this._coverageByID.get(String(id));
+  }
+
+  referralByID(id: EpicID): Referral | undefined {
+    return this._referralsByID.get(String(id));
+  }
+
+  episodeByID(id: EpicID): Episode | undefined {
+    return this._episodesByID.get(String(id));
+  }
+
+  messageByID(id: EpicID): Message | undefined {
+    return this._messagesByID.get(String(id));
+  }
+
+  conversationByID(id: EpicID): Conversation | undefined {
+    return this._conversationsByID.get(String(id));
   }
 
   /** All encounters sorted by date */
@@ -1131,6 +2252,59 @@ export class PatientRecord {
     );
   }
 
+  /**
+   * Query the record's entities without a database:
+   *
+   *   record.find({ type: 'labResult', component: /A1C/i, from: '2021-01-01' })
+   *
+   * Every condition given must match. Results are in date order, undated last.
+   */
+  find<K extends QueryEntityType = QueryEntityType>(query: RecordQuery<K> = {}): QueryHit<K>[] {
+    const types = query.type == null ? null : new Set<QueryEntityType>([query.type].flat());
+    const from = queryBound(query.from, 'from');
+    const to = queryBound(query.to, 'to');
+    this._queryHits ??= collectQueryHits(this);
+    return this._queryHits.filter(h =>
+      (types == null || types.has(h.type)) &&
+      (from == null || (h.date != null && h.date >= from)) &&
+      (to == null || (h.date != null && h.date <= to)) &&
+      (query.name == null || queryMatch(query.name, h.name)) &&
+      (query.component == null || (h.type === 'labResult' && queryMatch(query.component, h.name))) &&
+      (query.text == null || queryMatch(query.text, h.text)) &&
+      (query.encounter == null || String(h.encounter?.PAT_ENC_CSN_ID) === String(query.encounter))
+    ) as QueryHit<K>[];
+  }
+
+  /** Everything dated within [start, end], inclusive */
+  between(start: string | Date, end: string | Date): QueryHit[] {
+    return this.find({ from: start, to: end });
+  }
+
+  /** Free-text search over note text, message bodies, diagnosis names and other entity names */
+  search<K extends QueryEntityType = QueryEntityType>(text: QueryPattern, type?: K | K[]): QueryHit<K>[] {
+    return this.find({ text, type });
+  }
+
+  /**
+   * Every dated event on the record in one chronological stream: visits,
+   * orders, results, notes, medication starts and stops, immunizations,
+   * problem onset and resolution, messages, claims and payments. Each event
+   * points back at the entity it came from.
+   */
+  timeline(): TimelineEvent[] {
+    return collectTimeline(this);
+  }
+
+  /**
+   * The record as it stood on a past day: problems, medications and
+   * allergies known then, the social history snapshot in effect and the
+   * balance posted so far. For reviewing a visit against what was known at
+   * the time rather than today's lists.
+   */
+  asOf(date: string | Date): PointInTimeView {
+    return buildPointInTimeView(this, queryBound(date, 'asOf')!);
+  }
+
   activeProblems(): Problem[] {
     return this.problems.filter(p => p.status !== 'Deleted' && p.status !== 'Resolved');
   }
@@ -1145,7 +2319,7 @@ export class PatientRecord {
       `Medications: ${this.medications.length}`,
       `Immunizations: ${this.immunizations.length}`,
       `Visits: ${v.length} clinical visits (${this.encounters.length} total contacts)`,
-      `Messages: ${this.messages.length}`,
+      `Messages: ${this.messages.length} (${this.conversations.length} conversations)`,
       `Billing transactions: ${this.billing.transactions.length}`,
     ];
     return lines.join('\n');
@@ -1154,6 +2328,12 @@ export class PatientRecord {
 
 // ─── Helpers ───────────────────────────────────────────────────────────────
 
+/** Canonical ISO for an Epic date/time value; the loader usually stored it that way already */
+function isoDateTime(v: unknown): string | undefined {
+  if (typeof v !== 'string' || v === '') return undefined;
+  return normalizeEpicDateTime(v) ?? undefined;
+}
+
 function buildTimeline(rows: EpicRow[]): HistoryTimeline<EpicRow> {
   const snapshots: HistorySnapshot<EpicRow>[] = rows.map(row => ({
     snapshotCSN: row.PAT_ENC_CSN_ID as CSN,
@@ -0,0 +1,101 @@
+/**
+ * datetime.ts — Epic date/time parsing, shared by the loader and HealthRecord.
+ *
+ * Epic exports datetimes as display strings ("9/28/2023 12:00:00 AM", or
+ * "2023-09-28 14:30:00" in newer exports), and the schema says how to read
+ * them through the column type:
+ *
+ *   DATETIME             Usually a calendar date stored as 12:00 AM (CONTACT_DATE)
+ *   DATETIME (Local)     Wall-clock time at the organization
+ *   DATETIME (UTC)       An instant in UTC
+ *   DATETIME (Attached)  Wall-clock time in the zone attached to the record
+ *
+ * `new Date(s)` reads all of these as the machine's local time, which shifts
+ * UTC instants and makes the result depend on where the code runs. Parse the
+ * fields explicitly instead and emit canonical ISO 8601:
+ *
+ *   unspecified  "2023-09-28" at midnight, else "2023-09-28T14:30:00"
+ *   local        "2023-09-28T14:30:00"    (no offset: the zone isn't exported)
+ *   attached     "2023-09-28T14:30:00"
+ *   utc          "2023-09-28T14:30:00Z"
+ *
+ * Canonical strings sort chronologically and parse back to themselves.
+ */
+
+export type DateTimeSemantics = "unspecified" | "local" | "utc" | "attached";
+
+/** Schema column type → how its values should be read */
+export const DATETIME_SEMANTICS: Record<string, DateTimeSemantics> = {
+  DATETIME: "unspecified",
+  "DATETIME (Local)": "local",
+  "DATETIME (UTC)": "utc",
+  "DATETIME (Attached)": "attached",
+};
+
+// 9/28/2023, 9/28/2023 2:30 PM, 9/28/2023 12:00:00 AM, 09/28/2023 14:30:00
+const US_FORMAT = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([AaPp][Mm])?)?$/;
+// 2023-09-28, 2023-09-28 14:30:00, 2023-09-28T14:30:00.000Z, ...+05:00
+const ISO_FORMAT = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+
+const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Parse an Epic date/time string into canonical ISO 8601 for the given
+ * semantics. Returns null when the value isn't a recognizable date — the
+ * caller decides whether to keep the original.
+ */
+export function normalizeEpicDateTime(raw: string, semantics: DateTimeSemantics = "unspecified"): string | null {
+  const v = raw.trim();
+  let year: number, month: number, day: number;
+  let hour = 0, minute = 0, second = 0;
+  let offsetMinutes: number | null = null;
+
+  let m = US_FORMAT.exec(v);
+  if (m) {
+    [month, day, year] = [+m[1], +m[2], +m[3]];
+    if (m[4] !== undefined) {
+      [hour, minute, second] = [+m[4], +m[5], +(m[6] ?? 0)];
+      const meridiem = m[7]?.toUpperCase();
+      if (meridiem) {
+        if (hour < 1 || hour > 12) return null;
+        hour = (hour % 12) + (meridiem === "PM" ? 12 : 0);
+      }
+    }
+  } else if ((m = ISO_FORMAT.exec(v))) {
+    [year, month, day] = [+m[1], +m[2], +m[3]];
+    if (m[4] !== undefined) [hour, minute, second] = [+m[4], +m[5], +(m[6] ?? 0)];
+    if (m[7] === "Z") offsetMinutes = 0;
+    else if (m[7]) {
+      const sign = m[7][0] === "-" ? -1 : 1;
+      const digits = m[7].slice(1).replace(":", "");
+      offsetMinutes = sign * (+digits.slice(0, 2) * 60 + +digits.slice(2));
+    }
+  } else {
+    return null;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  if (hour > 23 || minute > 59 || second > 59) return null;
+
+  if (offsetMinutes !== null) {
+    // An explicit offset pins the instant; render it in UTC whatever the column says
+    const t = new Date(Date.UTC(year, month - 1, day, hour, minute, second) - offsetMinutes * 60_000);
+    return t.toISOString().replace(/\.\d{3}Z$/, "Z");
+  }
+
+  const date = `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+  const time = `${pad(hour)}:${pad(minute)}:${pad(second)}`;
+  switch (semantics) {
+    case "utc":
+      return `${date}T${time}Z`;
+    case "local":
+    case "attached":
+      return `${date}T${time}`;
+    case "unspecified":
+      return hour === 0 && minute === 0 && second === 0 ? date : `${date}T${time}`;
+  }
+}
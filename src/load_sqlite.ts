@@ -6,20 +6,82 @@
  *   tsv/          One TSV file per Epic table (550 files, including PATIENT_2.tsv etc.)
  *   schemas/      One JSON schema per Epic table (from open.epic.com EHI docs)
  *
+ * Either source can also be the export zip as the patient received it, or a
+ * directory of zips. Zips nested inside zips are opened too. TSV and JSON
+ * entries are read straight from the archive (see zip.ts); if the TSV
+ * source contains schemas, --schemas isn't needed.
+ *
  * Output:
  *   ehi_clean.db  One sqlite table per TSV. No merging, no heuristic FKs.
  *                 Column descriptions + table descriptions embedded as SQL comments.
  *
  * Every TSV becomes its own table. PATIENT_2 stays PATIENT_2.
+ *
+ * Usage:
+ *   bun run src/load_sqlite.ts                       # fresh load (replaces ehi_clean.db)
+ *   bun run src/load_sqlite.ts --tsv ~/Downloads/EHI_Export.zip --db my.db
+ *   bun run src/load_sqlite.ts --tsv export/tsv --schemas export/schemas
+ *   bun run src/load_sqlite.ts --merge [--export-date 2024-06-01]
+ *
+ * Export batches: patients request EHI exports repeatedly. Every load is
+ * recorded in _export_batch, and every row carries _batch_id — the batch
+ * that inserted or last changed it. --merge loads a newer export into the
+ * existing database: each table is staged, diffed against the current rows
+ * by primary key, and new/changed/disappeared rows are logged to
+ * _export_change (with the old row as JSON) before the table is brought up
+ * to date. A table the database doesn't have yet loads directly, with every
+ * row logged as new. Tables always mirror the most recent export.
+ *
+ * Datetimes: schema DATETIME columns are parsed once here (datetime.ts) and
+ * stored as canonical ISO 8601 — "Z" for DATETIME (UTC), no offset for
+ * Local/Attached wall-clock times, a bare date for plain DATETIME at
+ * midnight. The original Epic strings are kept per row in _datetime_raw
+ * (JSON), and each column's semantics are recorded in _datetime_column.
+ *
+ * Indexes: after loading, every column project.ts joins on (its ChildSpecs,
+ * split_config.json join columns, bridge tables — see projectionJoins() in
+ * projection_spec.ts) gets an index, as does every PAT_ID / PAT_ENC_CSN_ID
+ * column. The joins are recorded in _foreign_key. They aren't declared as
+ * SQLite FOREIGN KEY constraints: exports routinely contain orphans, and
+ * the tables would have to be rebuilt to add them.
  */
 
 import { Database } from "bun:sqlite";
-import { readdirSync, existsSync, statSync, unlinkSync } from "fs";
-import { join } from "path";
-
-const TSV_DIR = "tsv";
-const SCHEMA_DIR = "schemas";
-const DB_PATH = "ehi_clean.db";
+import { readdirSync, readFileSync, existsSync, statSync, unlinkSync, writeFileSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+import { openTsv, type TsvEncoding } from "./tsv";
+import { isZipFile, readZipEntries, readZipEntry, extractZipEntry } from "./zip";
+import { DATETIME_SEMANTICS, normalizeEpicDateTime } from "./datetime";
+import { projectionJoins, type ProjectionJoin } from "./projection_spec";
+
+const TSV_PATH = process.argv.includes("--tsv")
+  ? process.argv[process.argv.indexOf("--tsv") + 1]
+  : "tsv";
+const SCHEMA_PATH = process.argv.includes("--schemas")
+  ? process.argv[process.argv.indexOf("--schemas") + 1]
+  : null; // schemas found alongside the TSVs, else "schemas"
+const DB_PATH = process.argv.includes("--db")
+  ? process.argv[process.argv.indexOf("--db") + 1]
+  : "ehi_clean.db";
+const REPORT_PATH = "load_report.json";
+
+const MERGE = process.argv.includes("--merge");
+const EXPORT_DATE = process.argv.includes("--export-date")
+  ? process.argv[process.argv.indexOf("--export-date") + 1]
+  : null;
+
+/** Column added to every loaded table: the _export_batch that wrote the row. */
+const BATCH_COL = "_batch_id";
+const BATCH_COL_DEF = `"${BATCH_COL}" INTEGER`;
+/** Added to tables with DATETIME columns: JSON of the original Epic strings */
+const RAW_DATETIME_COL = "_datetime_raw";
+
+// Multi-year exports have TSVs of hundreds of MB (ORDER_RESULTS,
+// ARPB_TRANSACTIONS, ...). tsv.ts streams them in fixed-size chunks; we
+// commit in bounded transactions so memory stays flat regardless of size.
+const INSERT_BATCH_ROWS = 5_000;
+const PROGRESS_EVERY_ROWS = 100_000;
 
 const TYPE_MAP: Record<string, string> = {
   VARCHAR: "TEXT",
@@ -49,18 +111,180 @@ interface Schema {
   columns?: SchemaColumn[];
 }
 
+/**
+ * Per-table accounting written to load_report.json. Deterministic (no
+ * timestamps) so two loads of different export versions can be diffed.
+ */
+interface TableLoadReport {
+  encoding: TsvEncoding;
+  hasSchema: boolean;
+  /** Data rows read from the TSV */
+  tsvRows: number;
+  /** Rows accepted by INSERT OR REPLACE */
+  inserted: number;
+  /** Rows in the table after load (inserted − pkCollisions) */
+  tableRows: number;
+  /** Rows silently overwritten by a later row with the same primary key */
+  pkCollisions: number;
+  /** Records the TSV reader had to guess at (see tsv.ts) */
+  malformedLines: number;
+  /** Rows that failed to insert even row-by-row, grouped by error */
+  dropped: { count: number; reasons: Record<string, number>; firstRows: number[] };
+  /** In the TSV header but not the schema — these values are discarded */
+  columnsNotInSchema: string[];
+  /** In the schema but not the TSV header — these columns load as NULL */
+  columnsNotInTsv: string[];
+  /** Values coerce() left as strings in INTEGER/NUMERIC/REAL columns, and unparseable DATETIME values (kept as-is) */
+  coercionFallbacks: Record<string, { type: string; count: number; sample: string }>;
+  /** --merge only: row-level diff against the previous export */
+  changes?: MergeCounts;
+  error?: string;
+}
+
+interface MergeCounts {
+  new: number;
+  changed: number;
+  disappeared: number;
+  unchanged: number;
+}
+
+interface LoadReport {
+  tsvSource: string;
+  schemaSource: string;
+  dbPath: string;
+  batchId: number;
+  exportDate: string;
+  mode: "fresh" | "merge";
+  /** --merge only: tables in the database that this export has no TSV for (left untouched) */
+  missingFromExport?: string[];
+  totals: {
+    tables: number;
+    tsvRows: number;
+    inserted: number;
+    tableRows: number;
+    pkCollisions: number;
+    dropped: number;
+    malformedLines: number;
+    coercionFallbacks: number;
+    /** Indexes on projection join columns (see createJoinIndexes) */
+    indexes: number;
+    changes?: MergeCounts;
+  };
+  tables: Record<string, TableLoadReport>;
+}
+
 function esc(text: string | undefined): string {
   if (!text) return "";
   return text.replace(/--/g, "\u2014").replace(/\n/g, " ").replace(/\r/g, "");
 }
 
-function loadSchema(name: string): Schema | null {
-  const path = join(SCHEMA_DIR, `${name}.json`);
-  if (!existsSync(path)) return null;
-  const stat = statSync(path);
-  if (stat.size === 0) return null;
-  const text = require("fs").readFileSync(path, "utf-8");
-  return JSON.parse(text) as Schema;
+function loadSchema(schemas: Map<string, ExportFile>, name: string): Schema | null {
+  const file = schemas.get(name);
+  if (!file || file.size === 0) return null;
+  return JSON.parse(file.text()) as Schema;
+}
+
+// ─── Export sources ────────────────────────────────────────────────────────
+
+/** A TSV or schema file, either on disk or inside a (possibly nested) zip. */
+interface ExportFile {
+  /** Where it came from: a path, or "archive.zip!entry" */
+  origin: string;
+  size: number;
+  mtimeMs: number;
+  /** Path to read it from; zip entries are extracted to a temp file first */
+  open(): Promise<string>;
+  /** Delete the temp file made by open(), if any */
+  release(): void;
+  /** Whole contents as UTF-8 (schemas are small) */
+  text(): string;
+}
+
+interface ExportFiles {
+  /** Keyed by table name */
+  tsvs: Map<string, ExportFile>;
+  schemas: Map<string, ExportFile>;
+}
+
+/**
+ * Collect TSVs and schema JSONs from a directory, a zip, or a directory of
+ * zips. Zip entries are matched on their file name wherever they sit in the
+ * archive (exports put them under "tsv/", "EHI/", ...). Nested zips are
+ * extracted to `tmp` and scanned in turn. The first file seen for a table
+ * wins; later duplicates are reported and skipped.
+ */
+async function scanExport(path: string, tmp: string): Promise<ExportFiles> {
+  const found: ExportFiles = { tsvs: new Map(), schemas: new Map() };
+  if (!existsSync(path)) return found;
+  let tmpSeq = 0;
+  const tmpPath = (fileName: string) => join(tmp, `${basename(path)}.${tmpSeq++}.${fileName}`);
+
+  const add = (fileName: string, file: ExportFile) => {
+    const m = /^(.+)\.(tsv|json)$/i.exec(fileName);
+    if (!m || fileName.startsWith(".")) return;
+    const into = m[2].toLowerCase() === "tsv" ? found.tsvs : found.schemas;
+    const prev = into.get(m[1]);
+    if (prev) {
+      console.log(`  Duplicate ${fileName}: using ${prev.origin}, skipping ${file.origin}`);
+      return;
+    }
+    into.set(m[1], file);
+  };
+
+  const scanZip = async (zipPath: string, label: string) => {
+    for (const entry of readZipEntries(zipPath)) {
+      if (entry.isDirectory || entry.name.startsWith("__MACOSX/")) continue;
+      const fileName = basename(entry.name);
+      const origin = `${label}!${entry.name}`;
+      if (/\.zip$/i.test(fileName)) {
+        const inner = tmpPath(fileName);
+        await extractZipEntry(zipPath, entry, inner);
+        await scanZip(inner, origin);
+        continue;
+      }
+      let extracted: string | null = null;
+      add(fileName, {
+        origin,
+        size: entry.size,
+        mtimeMs: entry.mtimeMs,
+        open: async () => {
+          extracted = tmpPath(fileName);
+          await extractZipEntry(zipPath, entry, extracted);
+          return extracted;
+        },
+        release: () => {
+          if (extracted) rmSync(extracted, { force: true });
+          extracted = null;
+        },
+        text: () => readZipEntry(zipPath, entry).toString("utf-8"),
+      });
+    }
+  };
+
+  const addDiskFile = (filePath: string) => {
+    const stat = statSync(filePath);
+    add(basename(filePath), {
+      origin: filePath,
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      open: async () => filePath,
+      release: () => {},
+      text: () => readFileSync(filePath, "utf-8"),
+    });
+  };
+
+  if (statSync(path).isDirectory()) {
+    for (const f of readdirSync(path).sort()) {
+      const filePath = join(path, f);
+      if (/\.zip$/i.test(f) && isZipFile(filePath)) await scanZip(filePath, filePath);
+      else if (statSync(filePath).isFile()) addDiskFile(filePath);
+    }
+  } else if (isZipFile(path)) {
+    await scanZip(path, path);
+  } else {
+    addDiskFile(path);
+  }
+  return found;
 }
 
 function createTable(db: Database, name: string, schema: Schema): string[] {
@@ -71,16 +295,18 @@ function createTable(db: Database, name: string, schema: Schema): string[] {
   const colDefs: string[] = [];
   const colNames: string[] = [];
 
-  for (let i = 0; i < columns.length; i++) {
-    const col = columns[i];
+  for (const col of columns) {
     const cname = col.name;
     const ctype = TYPE_MAP[(col.type || "").trim()] || "TEXT";
     const cdesc = esc(col.description);
-    const isLast = i === columns.length - 1 && pkCols.length === 0;
-    const comma = isLast ? "" : ",";
-    colDefs.push(`  "${cname}" ${ctype}${comma} -- ${cdesc}`);
+    colDefs.push(`  "${cname}" ${ctype}, -- ${cdesc}`);
     colNames.push(cname);
   }
+  if (columns.some((c) => DATETIME_SEMANTICS[(c.type || "").trim()])) {
+    colDefs.push(`  "${RAW_DATETIME_COL}" TEXT, -- Original Epic strings of this row's DATETIME columns (JSON object)`);
+  }
+  const comma = pkCols.length > 0 ? "," : "";
+  colDefs.push(`  ${BATCH_COL_DEF}${comma} -- Export batch that loaded or last changed this row (_export_batch)`);
 
   const body = colDefs.join("\n");
   let pk = "";
@@ -99,43 +325,220 @@ function createTableFromHeader(
   name: string,
   header: string[]
 ): string[] {
-  const colDefs = header.map((h) => `"${h}" TEXT`).join(", ");
+  const colDefs = [...header.map((h) => `"${h}" TEXT`), BATCH_COL_DEF].join(", ");
   db.exec(`DROP TABLE IF EXISTS "${name}"`);
   db.exec(`CREATE TABLE "${name}" (${colDefs})`);
   return [...header];
 }
 
-function loadTsvRows(
-  tsvPath: string
-): { header: string[]; rows: Record<string, string>[] } {
-  // Read file as buffer and decode with replacement for invalid UTF-8
-  const buf = require("fs").readFileSync(tsvPath);
-  const decoder = new TextDecoder("utf-8", { fatal: false });
-  const text = decoder.decode(buf);
-
-  const lines = text.split("\n");
-  if (lines.length === 0 || (lines.length === 1 && lines[0].trim() === "")) {
-    return { header: [], rows: [] };
+// ─── Export batches ────────────────────────────────────────────────────────
+
+function createBatchTables(db: Database): void {
+  db.exec(`CREATE TABLE IF NOT EXISTS "_export_batch" ( -- One row per load of an EHI export
+  "BATCH_ID" INTEGER PRIMARY KEY, -- 1 for the first load, +1 per --merge
+  "EXPORT_DATE" TEXT, -- When the export was produced (--export-date, else newest TSV mtime)
+  "LOADED_AT" TEXT, -- When this load ran (ISO 8601 UTC)
+  "SOURCE" TEXT -- TSV directory the batch was read from
+);
+CREATE TABLE IF NOT EXISTS "_export_change" ( -- Row-level diff recorded by each --merge
+  "BATCH_ID" INTEGER, -- Batch that introduced the change
+  "TABLE_NAME" TEXT,
+  "CHANGE" TEXT, -- new | changed | disappeared
+  "ROW_KEY" TEXT, -- JSON array of primary key values (all columns if no PK)
+  "OLD_ROW" TEXT -- JSON of the row before the change (changed/disappeared only)
+);
+CREATE INDEX IF NOT EXISTS "_export_change_batch" ON "_export_change" ("BATCH_ID", "TABLE_NAME");`);
+}
+
+// ─── Datetime columns ──────────────────────────────────────────────────────
+
+function createDateTimeTable(db: Database): void {
+  db.exec(`CREATE TABLE IF NOT EXISTS "_datetime_column" ( -- How each DATETIME column was normalized
+  "TABLE_NAME" TEXT,
+  "COLUMN_NAME" TEXT,
+  "SCHEMA_TYPE" TEXT, -- Column type from the Epic schema, e.g. DATETIME (UTC)
+  "SEMANTICS" TEXT, -- unspecified | local | utc | attached (see datetime.ts)
+  PRIMARY KEY ("TABLE_NAME", "COLUMN_NAME")
+);`);
+}
+
+/** DATETIME columns of a schema → their schema type (a DATETIME_SEMANTICS key). */
+function dateTimeColumns(schema: Schema | null): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const col of schema?.columns || []) {
+    const type = (col.type || "").trim();
+    if (DATETIME_SEMANTICS[type]) out[col.name] = type;
+  }
+  return out;
+}
+
+function recordDateTimeColumns(db: Database, name: string, schema: Schema): void {
+  db.query(`DELETE FROM "_datetime_column" WHERE "TABLE_NAME" = ?`).run(name);
+  const insert = db.prepare(`INSERT INTO "_datetime_column" VALUES (?, ?, ?, ?)`);
+  for (const col of schema.columns || []) {
+    const type = (col.type || "").trim();
+    if (DATETIME_SEMANTICS[type]) insert.run(name, col.name, type, DATETIME_SEMANTICS[type]);
+  }
+}
+
+function tableColumns(db: Database, name: string): { name: string; pk: number }[] {
+  return db.query(`PRAGMA table_info("${name}")`).all() as { name: string; pk: number }[];
+}
+
+/** Columns _export_change keys a row on: the primary key, else every column */
+function rowKeyColumns(cols: { name: string; pk: number }[]): string[] {
+  const pkCols = cols.filter((c) => c.pk > 0).sort((a, b) => a.pk - b.pk).map((c) => c.name);
+  return pkCols.length > 0 ? pkCols : cols.map((c) => c.name);
+}
+
+/**
+ * Diff a freshly loaded staging table against the live table, log the
+ * differences to _export_change and make the live table match the stage.
+ * Rows are matched on the primary key; tables without one match on every
+ * column (so they only ever see new/disappeared, never changed).
+ */
+function mergeStagedTable(db: Database, name: string, stage: string, batchId: number): MergeCounts {
+  const stageCols = tableColumns(db, stage).filter((c) => c.name !== BATCH_COL);
+  const liveCols = new Set(tableColumns(db, name).map((c) => c.name));
+
+  // Newer exports can add columns; older ones just leave NULLs behind
+  for (const c of stageCols) {
+    if (!liveCols.has(c.name)) db.exec(`ALTER TABLE "${name}" ADD COLUMN "${c.name}"`);
+  }
+
+  const keyCols = rowKeyColumns(stageCols);
+  const dataCols = stageCols.map((c) => c.name).filter((c) => !keyCols.includes(c));
+  const match = keyCols.map((c) => `t."${c}" IS s."${c}"`).join(" AND ");
+  const differs = dataCols.length > 0
+    ? dataCols.map((c) => `t."${c}" IS NOT s."${c}"`).join(" OR ")
+    : "0";
+  const keyJson = (alias: string) => `json_array(${keyCols.map((c) => `${alias}."${c}"`).join(", ")})`;
+  const colList = stageCols.map((c) => `"${c.name}"`).join(", ");
+  const sColList = stageCols.map((c) => `s."${c.name}"`).join(", ");
+
+  const logChange = db.prepare(
+    `INSERT INTO "_export_change" ("BATCH_ID", "TABLE_NAME", "CHANGE", "ROW_KEY", "OLD_ROW") VALUES (?, ?, ?, ?, ?)`
+  );
+  const logOld = (change: string, rows: Record<string, unknown>[]) => {
+    for (const { _key, ...old } of rows) {
+      logChange.run(batchId, name, change, _key as string, JSON.stringify(old));
+    }
+  };
+
+  const counts: MergeCounts = { new: 0, changed: 0, disappeared: 0, unchanged: 0 };
+  db.transaction(() => {
+    // Record everything first, while live still holds the previous export
+    counts.new = db.query(`
+      INSERT INTO "_export_change" ("BATCH_ID", "TABLE_NAME", "CHANGE", "ROW_KEY")
+      SELECT ?, ?, 'new', ${keyJson("s")} FROM "${stage}" s
+      WHERE NOT EXISTS (SELECT 1 FROM "${name}" t WHERE ${match})
+    `).run(batchId, name).changes;
+
+    const changed = db.query(`
+      SELECT t.*, ${keyJson("t")} AS _key FROM "${name}" t JOIN "${stage}" s ON ${match}
+      WHERE ${differs}
+    `).all() as Record<string, unknown>[];
+    logOld("changed", changed);
+    counts.changed = changed.length;
+
+    const gone = db.query(`
+      SELECT t.*, ${keyJson("t")} AS _key FROM "${name}" t
+      WHERE NOT EXISTS (SELECT 1 FROM "${stage}" s WHERE ${match})
+    `).all() as Record<string, unknown>[];
+    logOld("disappeared", gone);
+    counts.disappeared = gone.length;
+
+    // Then apply: changed rows replaced, disappeared removed, new added
+    if (counts.changed > 0) {
+      db.exec(`INSERT OR REPLACE INTO "${name}" (${colList}, "${BATCH_COL}")
+        SELECT ${sColList}, ${batchId} FROM "${stage}" s JOIN "${name}" t ON ${match} WHERE ${differs}`);
+    }
+    if (counts.disappeared > 0) {
+      db.exec(`DELETE FROM "${name}" AS t WHERE NOT EXISTS (SELECT 1 FROM "${stage}" s WHERE ${match})`);
+    }
+    if (counts.new > 0) {
+      db.exec(`INSERT INTO "${name}" (${colList}, "${BATCH_COL}")
+        SELECT ${sColList}, ${batchId} FROM "${stage}" s WHERE NOT EXISTS (SELECT 1 FROM "${name}" t WHERE ${match})`);
+    }
+    db.exec(`DROP TABLE "${stage}"`);
+  })();
+
+  const total = (db.query(`SELECT COUNT(*) as n FROM "${name}"`).get() as { n: number }).n;
+  counts.unchanged = total - counts.new - counts.changed;
+  return counts;
+}
+
+/**
+ * Log every row of a table that first appears in a merged export as new —
+ * there is nothing to diff it against, but its rows are still changes.
+ */
+function recordNewTable(db: Database, name: string, batchId: number): MergeCounts {
+  const keyCols = rowKeyColumns(tableColumns(db, name).filter((c) => c.name !== BATCH_COL));
+  const added = db.query(`
+    INSERT INTO "_export_change" ("BATCH_ID", "TABLE_NAME", "CHANGE", "ROW_KEY")
+    SELECT ?, ?, 'new', json_array(${keyCols.map((c) => `t."${c}"`).join(", ")}) FROM "${name}" t
+  `).run(batchId, name).changes;
+  return { new: added, changed: 0, disappeared: 0, unchanged: 0 };
+}
+
+// ─── Join indexes ──────────────────────────────────────────────────────────
+
+/** Epic's two universal keys: a column with this name points here, in any table. */
+const CONVENTION_FKS: Record<string, { refTable: string; refColumn: string }> = {
+  PAT_ID: { refTable: "PATIENT", refColumn: "PAT_ID" },
+  PAT_ENC_CSN_ID: { refTable: "PAT_ENC", refColumn: "PAT_ENC_CSN_ID" },
+};
+
+/**
+ * Index every column the projector joins on and (re)write _foreign_key.
+ * Columns that already lead the primary key are covered by its index.
+ * Returns the number of indexes on join columns.
+ */
+function createJoinIndexes(db: Database): number {
+  db.exec(`CREATE TABLE IF NOT EXISTS "_foreign_key" ( -- Joins the projector performs (not enforced)
+  "TABLE_NAME" TEXT,
+  "COLUMN_NAME" TEXT,
+  "REF_TABLE" TEXT,
+  "REF_COLUMN" TEXT,
+  "KIND" TEXT, -- child | split | bridge | convention (see projection_spec.ts projectionJoins)
+  "REF_TABLE_EXISTS" INTEGER, -- 0 when the export has no such parent table
+  PRIMARY KEY ("TABLE_NAME", "COLUMN_NAME", "REF_TABLE", "REF_COLUMN")
+);
+DELETE FROM "_foreign_key";`);
+
+  const tables = new Map<string, ReturnType<typeof tableColumns>>();
+  for (const { name } of db.query("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE '\\_%' ESCAPE '\\'").all() as { name: string }[]) {
+    tables.set(name, tableColumns(db, name));
   }
 
-  // Parse header
-  const headerLine = lines[0];
-  const header = headerLine.split("\t").map((h) => h.replace(/\r$/, ""));
-
-  // Parse data rows
-  const rows: Record<string, string>[] = [];
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === "" || line === "\r") continue; // skip empty trailing lines
-    const fields = line.split("\t").map((f) => f.replace(/\r$/, ""));
-    const row: Record<string, string> = {};
-    for (let j = 0; j < header.length; j++) {
-      row[header[j]] = fields[j] ?? "";
+  const joins: (Omit<ProjectionJoin, "kind"> & { kind: string })[] = projectionJoins();
+  const declared = new Set(joins.map((j) => `${j.table}.${j.column}`));
+  for (const [table, cols] of tables) {
+    for (const c of cols) {
+      const ref = CONVENTION_FKS[c.name];
+      if (ref && ref.refTable !== table && !declared.has(`${table}.${c.name}`)) {
+        joins.push({ table, column: c.name, ...ref, kind: "convention" });
+      }
     }
-    rows.push(row);
   }
 
-  return { header, rows };
+  const recordFk = db.prepare(`INSERT OR IGNORE INTO "_foreign_key" VALUES (?, ?, ?, ?, ?, ?)`);
+  const indexed = new Set<string>();
+  db.transaction(() => {
+    for (const j of joins) {
+      const col = tables.get(j.table)?.find((c) => c.name === j.column);
+      if (!col) continue;
+      const key = `${j.table}.${j.column}`;
+      if (col.pk !== 1 && !indexed.has(key)) {
+        db.exec(`CREATE INDEX IF NOT EXISTS "idx_${j.table}_${j.column}" ON "${j.table}" ("${j.column}")`);
+      }
+      indexed.add(key);
+      if (j.refTable && j.refColumn) {
+        recordFk.run(j.table, j.column, j.refTable, j.refColumn, j.kind, tables.has(j.refTable) ? 1 : 0);
+      }
+    }
+  })();
+  return indexed.size;
 }
 
 function coerce(
@@ -174,8 +577,26 @@ function coerce(
   return v;
 }
 
-function main() {
-  if (existsSync(DB_PATH)) {
+async function main() {
+  // Holds nested zips and the TSV currently being loaded from an archive
+  const tmp = mkdtempSync(join(tmpdir(), "ehi-load-"));
+  try {
+    await load(tmp);
+  } finally {
+    rmSync(tmp, { recursive: true, force: true });
+  }
+}
+
+async function load(tmp: string) {
+  const source = await scanExport(TSV_PATH, tmp);
+  const schemaSource = SCHEMA_PATH ?? (source.schemas.size > 0 ? TSV_PATH : "schemas");
+  const schemas = schemaSource === TSV_PATH ? source.schemas : (await scanExport(schemaSource, tmp)).schemas;
+  if (source.tsvs.size === 0) {
+    console.error(`No TSV files found in ${TSV_PATH}`);
+    process.exit(1);
+  }
+
+  if (!MERGE && existsSync(DB_PATH)) {
     unlinkSync(DB_PATH);
   }
 
@@ -183,23 +604,60 @@ function main() {
   db.exec("PRAGMA journal_mode=WAL");
   db.exec("PRAGMA synchronous=OFF");
 
-  const tsvFiles = readdirSync(TSV_DIR)
-    .filter((f) => f.endsWith(".tsv"))
-    .sort();
-  console.log(`TSV files to load: ${tsvFiles.length}`);
+  const tsvFiles = [...source.tsvs.keys()].sort();
+  console.log(`TSV files to load: ${tsvFiles.length} (from ${TSV_PATH})`);
+  console.log(`Schemas: ${schemas.size} (from ${schemaSource})`);
+
+  createBatchTables(db);
+  createDateTimeTable(db);
+  const batchId = (db.query(`SELECT COALESCE(MAX("BATCH_ID"), 0) + 1 AS n FROM "_export_batch"`).get() as { n: number }).n;
+  const newestTsv = Math.max(0, ...[...source.tsvs.values()].map((f) => f.mtimeMs));
+  const exportDate = EXPORT_DATE ?? new Date(newestTsv).toISOString().slice(0, 10);
+  db.query(`INSERT INTO "_export_batch" VALUES (?, ?, ?, ?)`)
+    .run(batchId, exportDate, new Date().toISOString(), TSV_PATH);
+  const existingTables = new Set(
+    (db.query("SELECT name FROM sqlite_master WHERE type='table'").all() as { name: string }[])
+      .map((r) => r.name)
+      .filter((n) => !n.startsWith("_"))
+  );
+  console.log(`Export batch ${batchId} (${exportDate})${MERGE && existingTables.size > 0 ? `, merging into ${existingTables.size} tables` : ""}`);
 
   let tablesOk = 0;
   let totalRows = 0;
   const errors: string[] = [];
+  const tableReports: Record<string, TableLoadReport> = {};
+
+  for (const name of tsvFiles) {
+    const tsvFile = source.tsvs.get(name)!;
+    const schema = loadSchema(schemas, name);
+    // When merging, load into a staging table and diff it against the live
+    // one; a table new to the database loads directly and is all new rows
+    const merging = MERGE && existingTables.has(name);
+    const newInMerge = MERGE && existingTables.size > 0 && !merging;
+    const target = merging ? `_stage_${name}` : name;
+
+    const { header, rows, stats } = openTsv(await tsvFile.open());
+    // openTsv holds the file open from here on, so an extracted temp copy
+    // can be unlinked now; its space is reclaimed once the rows are read
+    tsvFile.release();
+    const report: TableLoadReport = {
+      encoding: stats.encoding,
+      hasSchema: schema !== null,
+      tsvRows: 0,
+      inserted: 0,
+      tableRows: 0,
+      pkCollisions: 0,
+      malformedLines: 0,
+      dropped: { count: 0, reasons: {}, firstRows: [] },
+      columnsNotInSchema: [],
+      columnsNotInTsv: [],
+      coercionFallbacks: {},
+    };
+    tableReports[name] = report;
 
-  for (const tsvFile of tsvFiles) {
-    const name = tsvFile.replace(".tsv", "");
-    const tsvPath = join(TSV_DIR, tsvFile);
-    const schema = loadSchema(name);
-
-    const { header, rows } = loadTsvRows(tsvPath);
     if (header.length === 0) {
       errors.push(`${name}: empty TSV`);
+      report.error = "empty TSV";
       continue;
     }
 
@@ -209,74 +667,134 @@ function main() {
         colTypes[col.name] = TYPE_MAP[(col.type || "").trim()] || "TEXT";
       }
     }
+    const dtCols = dateTimeColumns(schema);
+    const hasDateTimes = Object.keys(dtCols).length > 0;
 
     let schemaCols: string[];
     try {
       if (schema) {
-        schemaCols = createTable(db, name, schema);
+        schemaCols = createTable(db, target, schema);
       } else {
-        schemaCols = createTableFromHeader(db, name, header);
+        schemaCols = createTableFromHeader(db, target, header);
       }
     } catch (e: any) {
       errors.push(`${name}: CREATE failed: ${e.message || e}`);
+      report.error = `CREATE failed: ${e.message || e}`;
+      rows.return(undefined); // close the file
       continue;
     }
 
-    if (rows.length === 0) {
-      tablesOk++;
-      continue;
-    }
+    if (schema) recordDateTimeColumns(db, name, schema);
+
+    const headerSet = new Set(header);
+    const schemaSet = new Set(schemaCols);
+    report.columnsNotInSchema = header.filter((h) => !schemaSet.has(h));
+    report.columnsNotInTsv = schemaCols.filter((c) => !headerSet.has(c));
 
-    const placeholders = schemaCols.map(() => "?").join(", ");
-    const colList = schemaCols.map((c) => `"${c}"`).join(", ");
-    const insertSql = `INSERT OR REPLACE INTO "${name}" (${colList}) VALUES (${placeholders})`;
+    const insertCols = hasDateTimes ? [...schemaCols, RAW_DATETIME_COL] : schemaCols;
+    const placeholders = insertCols.map(() => "?").join(", ");
+    const colList = insertCols.map((c) => `"${c}"`).join(", ");
+    const insertSql = `INSERT OR REPLACE INTO "${target}" (${colList}, "${BATCH_COL}") VALUES (${placeholders}, ${batchId})`;
+
+    // Use a transaction with prepared statement for speed; one transaction
+    // per INSERT_BATCH_ROWS keeps the journal and the batch array bounded
+    const stmt = db.prepare(insertSql);
+    const insertBatch = db.transaction((batch: (string | number | null)[][]) => {
+      for (const values of batch) {
+        stmt.run(...values);
+      }
+    });
+
+    let tableRows = 0;
+    let inserted = 0;
+    let firstError: string | null = null;
+    let batch: (string | number | null)[][] = [];
+    const started = performance.now();
+
+    const flush = () => {
+      try {
+        insertBatch(batch);
+        inserted += batch.length;
+      } catch (e: any) {
+        // Fall back to row-by-row insertion for this batch only
+        for (let i = 0; i < batch.length; i++) {
+          try {
+            stmt.run(...batch[i]);
+            inserted++;
+          } catch (e2: any) {
+            const rowNum = tableRows - batch.length + i;
+            const reason = String(e2.message || e2);
+            firstError ??= `${name}: INSERT row ${rowNum}: ${reason}`;
+            report.dropped.count++;
+            report.dropped.reasons[reason] = (report.dropped.reasons[reason] ?? 0) + 1;
+            if (report.dropped.firstRows.length < 10) report.dropped.firstRows.push(rowNum);
+          }
+        }
+      }
+      batch = [];
+    };
 
-    // Build batch of coerced values
-    const batch: (string | number | null)[][] = [];
     for (const row of rows) {
       const values: (string | number | null)[] = [];
+      const rawDateTimes: Record<string, string> = {};
       for (const col of schemaCols) {
         const raw = row[col] ?? "";
         const ctype = colTypes[col] || "TEXT";
-        values.push(coerce(raw, ctype));
+        let value = coerce(raw, ctype);
+        if (typeof value === "string" && dtCols[col]) {
+          rawDateTimes[col] = value;
+          const iso = normalizeEpicDateTime(value, DATETIME_SEMANTICS[dtCols[col]]);
+          if (iso !== null) {
+            value = iso;
+          } else {
+            const fb = (report.coercionFallbacks[col] ??= { type: dtCols[col], count: 0, sample: value });
+            fb.count++;
+          }
+        } else if (typeof value === "string" && ctype !== "TEXT") {
+          const fb = (report.coercionFallbacks[col] ??= { type: ctype, count: 0, sample: value });
+          fb.count++;
+        }
+        values.push(value);
+      }
+      if (hasDateTimes) {
+        values.push(Object.keys(rawDateTimes).length > 0 ? JSON.stringify(rawDateTimes) : null);
       }
       batch.push(values);
+      tableRows++;
+      if (batch.length >= INSERT_BATCH_ROWS) flush();
+      if (tableRows % PROGRESS_EVERY_ROWS === 0) {
+        console.log(`  ${name}: ${tableRows.toLocaleString()} rows...`);
+      }
     }
+    if (batch.length > 0) flush();
 
-    try {
-      // Use a transaction with prepared statement for speed
-      const stmt = db.prepare(insertSql);
-      const insertAll = db.transaction(() => {
-        for (const values of batch) {
-          stmt.run(...values);
-        }
-      });
-      insertAll();
-      totalRows += batch.length;
+    if (tableRows >= PROGRESS_EVERY_ROWS) {
+      const secs = ((performance.now() - started) / 1000).toFixed(1);
+      console.log(`  ${name}: ${inserted.toLocaleString()} rows loaded in ${secs}s`);
+    }
+    if (firstError) errors.push(firstError);
+
+    // The table was created fresh, so any shortfall between rows inserted
+    // and rows present is INSERT OR REPLACE overwriting a duplicate PK
+    const finalCount = (db.query(`SELECT COUNT(*) as n FROM "${target}"`).get() as { n: number }).n;
+    report.tsvRows = tableRows;
+    report.inserted = inserted;
+    report.tableRows = finalCount;
+    report.pkCollisions = inserted - finalCount;
+    report.malformedLines = stats.malformedLines;
+    if (merging) report.changes = mergeStagedTable(db, name, target, batchId);
+    else if (newInMerge) report.changes = recordNewTable(db, name, batchId);
+
+    totalRows += inserted;
+    if (tableRows === 0 || inserted > 0) {
       tablesOk++;
-    } catch (e: any) {
-      // Fall back to row-by-row insertion
-      let inserted = 0;
-      const stmt = db.prepare(insertSql);
-      for (let i = 0; i < batch.length; i++) {
-        try {
-          stmt.run(...batch[i]);
-          inserted++;
-        } catch (e2: any) {
-          if (inserted === 0 && i === 0) {
-            errors.push(`${name}: INSERT row 0: ${e2.message || e2}`);
-          }
-        }
-      }
-      totalRows += inserted;
-      if (inserted > 0) {
-        tablesOk++;
-      }
     }
   }
 
   // No explicit commit needed for bun:sqlite (auto-commit after transaction)
 
+  const joinIndexes = createJoinIndexes(db);
+
   const finalTables = db
     .query("SELECT name FROM sqlite_master WHERE type='table'")
     .all() as { name: string }[];
@@ -284,6 +802,7 @@ function main() {
   console.log(`\nTables created: ${finalTables.length}`);
   console.log(`Tables OK: ${tablesOk}`);
   console.log(`Total rows: ${totalRows}`);
+  console.log(`Join columns indexed: ${joinIndexes}`);
 
   console.log(`\n=== Spot checks ===`);
   const checks: [string, string][] = [
@@ -322,6 +841,70 @@ function main() {
     }
   }
 
+  const reportEntries = Object.entries(tableReports);
+  const sum = (f: (r: TableLoadReport) => number) =>
+    reportEntries.reduce((n, [, r]) => n + f(r), 0);
+  const loaded = new Set(tsvFiles);
+  const loadReport: LoadReport = {
+    tsvSource: TSV_PATH,
+    schemaSource,
+    dbPath: DB_PATH,
+    batchId,
+    exportDate,
+    mode: MERGE ? "merge" : "fresh",
+    ...(MERGE ? { missingFromExport: [...existingTables].filter((t) => !loaded.has(t)).sort() } : {}),
+    totals: {
+      tables: reportEntries.length,
+      tsvRows: sum((r) => r.tsvRows),
+      inserted: sum((r) => r.inserted),
+      tableRows: sum((r) => r.tableRows),
+      pkCollisions: sum((r) => r.pkCollisions),
+      dropped: sum((r) => r.dropped.count),
+      malformedLines: sum((r) => r.malformedLines),
+      coercionFallbacks: sum((r) => Object.values(r.coercionFallbacks).reduce((n, c) => n + c.count, 0)),
+      indexes: joinIndexes,
+      ...(MERGE ? {
+        changes: {
+          new: sum((r) => r.changes?.new ?? 0),
+          changed: sum((r) => r.changes?.changed ?? 0),
+          disappeared: sum((r) => r.changes?.disappeared ?? 0),
+          unchanged: sum((r) => r.changes?.unchanged ?? 0),
+        },
+      } : {}),
+    },
+    tables: tableReports,
+  };
+  writeFileSync(REPORT_PATH, JSON.stringify(loadReport, null, 2));
+
+  console.log(`\n=== Load report ===`);
+  const t = loadReport.totals;
+  console.log(`  ${t.tsvRows} TSV rows → ${t.inserted} inserted → ${t.tableRows} in tables`);
+  console.log(`  PK collisions: ${t.pkCollisions}, dropped: ${t.dropped}, malformed lines: ${t.malformedLines}, coercion fallbacks: ${t.coercionFallbacks}`);
+  const flagged = (label: string, f: (r: TableLoadReport) => number) => {
+    const hits = reportEntries.filter(([, r]) => f(r) > 0).sort((a, b) => f(b[1]) - f(a[1]));
+    if (hits.length === 0) return;
+    console.log(`  ${label} (${hits.length} tables): ` +
+      hits.slice(0, 5).map(([n, r]) => `${n} ${f(r)}`).join(", ") +
+      (hits.length > 5 ? `, ... +${hits.length - 5} more` : ""));
+  };
+  flagged("PK collisions", (r) => r.pkCollisions);
+  flagged("Dropped rows", (r) => r.dropped.count);
+  flagged("Malformed lines", (r) => r.malformedLines);
+  flagged("Columns not in schema", (r) => r.columnsNotInSchema.length);
+  const recoded = reportEntries.filter(([, r]) => r.encoding !== "utf-8");
+  if (recoded.length > 0) {
+    console.log(`  Non-UTF-8 TSVs: ${recoded.map(([n, r]) => `${n} (${r.encoding})`).join(", ")}`);
+  }
+  if (t.changes) {
+    const c = t.changes;
+    console.log(`  Merge vs previous export: ${c.new} new, ${c.changed} changed, ${c.disappeared} disappeared, ${c.unchanged} unchanged`);
+    flagged("Tables with changes", (r) => r.changes ? r.changes.new + r.changes.changed + r.changes.disappeared : 0);
+    if (loadReport.missingFromExport?.length) {
+      console.log(`  Not in this export (left as-is): ${loadReport.missingFromExport.join(", ")}`);
+    }
+  }
+  console.log(`  Written: ${REPORT_PATH}`);
+
   if (errors.length > 0) {
     console.log(`\nErrors (${errors.length}):`);
     for (const e of errors.slice(0, 15)) {
@@ -337,4 +920,4 @@ function main() {
   db.close();
 }
 
-main();
+await main();
@@ -0,0 +1,793 @@
+/**
+ * projection_spec.ts — Declarative registry of everything project.ts reads.
+ *
+ * Which tables hang off which parent, on what column, under what key, and
+ * which names get looked up along the way — declared once here rather than
+ * spelled out in query code and re-listed by hand for accounting:
+ *
+ *   *Children       ChildSpec arrays: child table, FK column, output key,
+ *                   and whether to merge the child's split tables
+ *   childGroups     The parent table and key column each array hangs off
+ *   rowLookups      CLARITY_* names resolved onto rows of a table
+ *   rootTables      Tables the project*() functions query directly
+ *   reviewedTables  Tables looked at and deliberately not projected (yet)
+ *   splits          split_config.json: how split tables merge onto their base
+ *
+ * project.ts attaches children and lookups from these, load_sqlite.ts
+ * indexes projectionJoins(), and the CLI's table accounting and tools/
+ * audit*.ts use projectedTables() / referencedTables(). Nothing here needs
+ * a database.
+ */
+
+import splitConfig from "./split_config.json";
+
+// ─── Split tables ──────────────────────────────────────────────────────────
+
+/**
+ * split_config.json: each base table's split members and the column each
+ * one joins on. `base_col` is the base-side column when it isn't base_pk
+ * (PAT_ENC's PK is PAT_ID, but its splits key on the CSN). Maintained with
+ * tools/derive_split_config.ts.
+ */
+export interface SplitMember { table: string; join_col: string; base_col?: string }
+export const splits = splitConfig as Record<string, { base_pk: string; members: SplitMember[] }>;
+
+// ─── Child table registry ──────────────────────────────────────────────────
+// Systematic attachment: for each parent entity type, list all child tables
+// with their FK column. This is how we go from 34 → 100+ tables.
+//
+// A spec's own `children` hang off each of its rows, to any depth. Nested
+// specs read their key from the parent row: `parentCol` names the parent's
+// column(s), defaulting to the same names as fkCol. Composite keys list the
+// columns pairwise, e.g. IP_FLWSHT_EDITED [FSD_ID, EDITED_LINE] →
+// IP_FLWSHT_MEAS [FSD_ID, LINE].
+
+export interface ChildSpec {
+  table: string;
+  fkCol: string | string[];
+  key: string;        // property name on the parent
+  merged?: boolean;   // whether to use mergeQuery
+  parentCol?: string | string[];  // nested specs: parent row column(s) fkCol matches
+  children?: ChildSpec[];
+}
+
+/** Column list of an fkCol / parentCol (a single column or a composite key). */
+export function keyCols(col: string | string[]): string[] {
+  return typeof col === "string" ? [col] : col;
+}
+
+export const encounterChildren: ChildSpec[] = [
+  { table: "PAT_ENC_DX", fkCol: "PAT_ENC_CSN_ID", key: "diagnoses" },
+  { table: "PAT_ENC_RSN_VISIT", fkCol: "PAT_ENC_CSN_ID", key: "reasons_for_visit" },
+  { table: "TREATMENT", fkCol: "PAT_ENC_CSN_ID", key: "treatments" },
+  { table: "TREATMENT_TEAM", fkCol: "PAT_ENC_CSN_ID", key: "treatment_team" },
+  { table: "PAT_ENC_CURR_MEDS", fkCol: "PAT_ENC_CSN_ID", key: "current_meds_snapshot" },
+  { table: "DISCONTINUED_MEDS", fkCol: "PAT_ENC_CSN_ID", key: "discontinued_meds" },
+  { table: "PAT_ADDENDUM_INFO", fkCol: "PAT_ENC_CSN_ID", key: "addenda" },
+  { table: "PAT_ENC_DOCS", fkCol: "PAT_ENC_CSN_ID", key: "attached_documents" },
+  { table: "ECHKIN_STEP_INFO", fkCol: "PAT_ENC_CSN_ID", key: "echeckin" },
+  { table: "PAT_ENC_LOS_DX", fkCol: "PAT_ENC_CSN_ID", key: "los_diagnoses" },
+  { table: "PAT_MYC_MESG", fkCol: "PAT_ENC_CSN_ID", key: "mychart_message_links" },
+  { table: "EXT_PHARM_TYPE_COVERED", fkCol: "PAT_ENC_CSN_ID", key: "pharmacy_coverage" },
+  { table: "PAT_ENC_ELIG_HISTORY", fkCol: "PAT_ENC_CSN_ID", key: "eligibility_history" },
+  // New: expand coverage
+  { table: "KIOSK_QUESTIONNAIR", fkCol: "PAT_ENC_CSN_ID", key: "questionnaires" },
+  { table: "MYC_APPT_QNR_DATA", fkCol: "PAT_ENC_CSN_ID", key: "mychart_questionnaires" },
+  { table: "PAT_ENC_THREADS", fkCol: "PAT_ENC_CSN_ID", key: "threads" },
+  { table: "FRONT_END_PMT_COLL_HX", fkCol: "PAT_ENC_CSN_ID", key: "copay_collection" },
+  { table: "PAT_REVIEW_DATA", fkCol: "PAT_ENC_CSN_ID", key: "review_data" },
+  { table: "ASSOCIATED_REFERRALS", fkCol: "PAT_ENC_CSN_ID", key: "associated_referrals" },
+  { table: "PAT_HX_REVIEW", fkCol: "PAT_ENC_CSN_ID", key: "history_reviews" },
+  { table: "PAT_HX_REV_TOPIC", fkCol: "PAT_ENC_CSN_ID", key: "history_review_topics" },
+  { table: "PAT_HX_REV_TYPE", fkCol: "PAT_ENC_CSN_ID", key: "history_review_types" },
+  { table: "PAT_REVIEW_ALLERGI", fkCol: "PAT_ENC_CSN_ID", key: "allergy_reviews" },
+  { table: "PAT_REVIEW_PROBLEM", fkCol: "PAT_ENC_CSN_ID", key: "problem_reviews" },
+  { table: "PAT_ENC_BILLING_ENC", fkCol: "PAT_ENC_CSN_ID", key: "billing_encounter" },
+  { table: "PATIENT_ENC_VIDEO_VISIT", fkCol: "PAT_ENC_CSN_ID", key: "video_visit" },
+  { table: "PAT_ENC_SEL_PHARMACIES", fkCol: "PAT_ENC_CSN_ID", key: "selected_pharmacies" },
+  { table: "SOCIAL_ADL_HX", fkCol: "PAT_ENC_CSN_ID", key: "adl_history" },
+  { table: "FAMILY_HX", fkCol: "PAT_ENC_CSN_ID", key: "family_history_detail" },
+  { table: "MEDICAL_HX", fkCol: "PAT_ENC_CSN_ID", key: "medical_history" },
+  { table: "PAT_SOCIAL_HX_DOC", fkCol: "PAT_ENC_CSN_ID", key: "social_history_docs" },
+  { table: "AN_RELINK_INFO", fkCol: "PAT_ENC_CSN_ID", key: "relink_info" },
+  { table: "PAT_ENC_LETTERS", fkCol: "PAT_ENC_CSN_ID", key: "letters" },
+  { table: "APPT_LETTER_RECIPIENTS", fkCol: "PAT_ENC_CSN_ID", key: "letter_recipients" },
+  { table: "MED_PEND_APRV_STAT", fkCol: "PAT_ENC_CSN_ID", key: "med_pending_approval" },
+  { table: "RESULT_FOLLOW_UP", fkCol: "PAT_ENC_CSN_ID", key: "result_follow_up" },
+  { table: "PAT_UCN_CONVERT", fkCol: "PAT_ENC_CSN_ID", key: "ucn_converts" },
+  { table: "ED_PAT_STATUS", fkCol: "PAT_ENC_CSN_ID", key: "ed_status_history" },
+  { table: "ADDITIONAL_EM_CODE", fkCol: "PAT_ENC_CSN_ID", key: "additional_em_codes" },
+  { table: "PAT_CANCEL_PROC", fkCol: "PAT_ENC_CSN_ID", key: "cancelled_procedures" },
+  { table: "PAT_ENC_ADMIT_DX_AUDIT", fkCol: "PAT_ENC_CSN_ID", key: "admit_dx_audit" },
+  { table: "PAT_ENC_QNRS_ANS", fkCol: "PAT_ENC_CSN_ID", key: "questionnaire_answers" },
+  { table: "PAT_HM_LETTER", fkCol: "PAT_ENC_CSN_ID", key: "health_maintenance_letters" },
+  // Encounter metadata extensions (111-row tables, one per encounter)
+  { table: "HOMUNCULUS_PAT_DATA", fkCol: "PAT_ENC_CSN_ID", key: "body_diagram_data" },
+  { table: "OPH_EXAM_DATA", fkCol: "PAT_ENC_CSN_ID", key: "ophthalmology_exam" },
+  { table: "PAT_CR_TX_SINGLE", fkCol: "PAT_ENC_CSN_ID", key: "credit_card_tx" },
+  { table: "PAT_ENC_CALL_DATA", fkCol: "PAT_ENC_CSN_ID", key: "call_data" },
+  { table: "PAT_ENC_CC_AUTO_CHG", fkCol: "PAT_ENC_CSN_ID", key: "auto_charge" },
+  { table: "PAT_ENC_PAS", fkCol: "PAT_ENC_CSN_ID", key: "pre_anesthesia" },
+  { table: "PAT_UTILIZATION_REVIEW", fkCol: "PAT_ENC_CSN_ID", key: "utilization_review" },
+  // Encounter-level family/admission data
+  { table: "FAM_HX_PAT_ONLY", fkCol: "PAT_ENC_CSN_ID", key: "family_hx_patient_only" },
+  { table: "HSP_ATND_PROV", fkCol: "PAT_ENC_CSN_ID", key: "attending_providers" },
+  { table: "HSP_ADMIT_DIAG", fkCol: "PAT_ENC_CSN_ID", key: "admit_diagnoses" },
+  { table: "HSP_ADMIT_PROC", fkCol: "PAT_ENC_CSN_ID", key: "admit_procedures" },
+  // ADT (admit/discharge/transfer) events
+  { table: "CLARITY_ADT", fkCol: "PAT_ENC_CSN_ID", key: "adt_events" },
+];
+
+export const orderChildren: ChildSpec[] = [
+  { table: "ORDER_RESULTS", fkCol: "ORDER_PROC_ID", key: "results" },
+  { table: "ORDER_DX_PROC", fkCol: "ORDER_PROC_ID", key: "diagnoses" },
+  { table: "ORDER_COMMENT", fkCol: "ORDER_ID", key: "comments" },
+  { table: "ORDER_NARRATIVE", fkCol: "ORDER_PROC_ID", key: "narrative" },
+  { table: "ORDER_IMPRESSION", fkCol: "ORDER_PROC_ID", key: "impression" },
+  { table: "ORDER_SIGNED_PROC", fkCol: "ORDER_PROC_ID", key: "signed_info" },
+  { table: "ORDER_RAD_ACC_NUM", fkCol: "ORDER_PROC_ID", key: "accession_numbers" },
+  { table: "ORDER_RAD_READING", fkCol: "ORDER_PROC_ID", key: "rad_readings" },
+  { table: "ORDER_MYC_INFO", fkCol: "ORDER_PROC_ID", key: "mychart_info" },
+  { table: "ORDER_MYC_RELEASE", fkCol: "ORDER_PROC_ID", key: "mychart_release" },
+  { table: "HV_ORDER_PROC", fkCol: "ORDER_PROC_ID", key: "hv_order_info" },
+  // ORDER_ID-keyed children (ORDER_ID = ORDER_PROC_ID in most cases)
+  { table: "ORDER_STATUS", fkCol: "ORDER_ID", key: "status_history" },
+  { table: "ORDER_AUTH_INFO", fkCol: "ORDER_ID", key: "auth_info" },
+  { table: "ORDER_PENDING", fkCol: "ORDER_ID", key: "pending_info" },
+  { table: "ORDER_REVIEW", fkCol: "ORDER_ID", key: "review_history" },
+  { table: "ORDER_READ_ACK", fkCol: "ORDER_ID", key: "read_acknowledgments" },
+  { table: "ORD_SPEC_QUEST", fkCol: "ORDER_ID", key: "specimen_questions" },
+  { table: "ORD_PROC_INSTR", fkCol: "ORDER_ID", key: "instructions" },
+  { table: "ORD_CLIN_IND", fkCol: "ORDER_ID", key: "clinical_indications" },
+  { table: "ORD_INDICATIONS", fkCol: "ORDER_ID", key: "indications" },
+  { table: "EXTERNAL_ORDER_INFO", fkCol: "ORDER_ID", key: "external_info" },
+  { table: "CL_ORD_FST_LST_SCH", fkCol: "ORDER_ID", key: "schedule_history" },
+  { table: "OBS_MTHD_ID", fkCol: "ORDER_ID", key: "observation_methods" },
+  { table: "SPEC_TYPE_SNOMED", fkCol: "ORDER_ID", key: "specimen_snomed" },
+  { table: "ORDER_INSTANTIATED", fkCol: "ORDER_ID", key: "instantiated_orders" },
+  { table: "ORDER_SUMMARY", fkCol: "ORDER_ID", key: "summary" },
+  { table: "ORDER_ANATOMICAL_REGION", fkCol: "ORDER_ID", key: "anatomical_regions" },
+  { table: "ORDER_IMAGE_AVAIL_INFO", fkCol: "ORDER_ID", key: "image_availability" },
+  { table: "ORDER_DOCUMENTS", fkCol: "ORDER_ID", key: "documents" },
+  { table: "ORD_PRFLST_TRK", fkCol: "ORDER_ID", key: "preference_list" },
+  { table: "ORD_SECOND_SIGN", fkCol: "ORDER_ID", key: "second_signature" },
+  { table: "RAD_THERAPY_ASSOC_COURSE", fkCol: "ORDER_ID", key: "rad_therapy_course" },
+  { table: "ADT_ORDER_INFORMATION", fkCol: "ORDER_ID", key: "adt_info" },
+  { table: "ORDER_RES_COMMENT", fkCol: "ORDER_ID", key: "result_comments" },
+  { table: "PERFORMING_ORG_INFO", fkCol: "ORDER_ID", key: "performing_org" },
+  { table: "MEDICATION_COST_ESTIMATES", fkCol: "ORDER_ID", key: "cost_estimates" },
+  { table: "FINALIZE_PHYSICIAN", fkCol: "ORDER_ID", key: "finalize_physician" },
+  { table: "ORDER_MODALITY_TYPE", fkCol: "ORDER_ID", key: "modality_type" },
+  { table: "ORDER_RPTD_SIG_INSTR", fkCol: "ORDER_ID", key: "reported_sig_instructions" },
+  { table: "ORD_RSLT_COMPON_ID", fkCol: "ORDER_ID", key: "result_component_ids" },
+  { table: "RIS_SGND_INFO", fkCol: "ORDER_PROC_ID", key: "ris_signed_info" },
+  { table: "SPEC_SOURCE_SNOMED", fkCol: "ORDER_ID", key: "specimen_source_snomed" },
+];
+
+export const noteChildren: ChildSpec[] = [
+  { table: "HNO_PLAIN_TEXT", fkCol: "NOTE_ID", key: "text" },
+  { table: "ABN_FOLLOW_UP", fkCol: "NOTE_ID", key: "metadata" },
+  { table: "NOTE_ENC_INFO", fkCol: "NOTE_ID", key: "encounter_info", merged: true },
+  { table: "NOTE_CONTENT_INFO", fkCol: "NOTE_ID", key: "content_info" },
+  { table: "V_EHI_HNO_LINKED_PATS", fkCol: "NOTE_ID", key: "linked_patients" },
+  { table: "HNO_ORDERS", fkCol: "NOTE_ID", key: "linked_orders" },
+  { table: "NOTES_LINK_ORD_TXN", fkCol: "NOTE_ID", key: "linked_order_txns" },
+];
+
+export const txChildren: ChildSpec[] = [
+  { table: "ARPB_TX_ACTIONS", fkCol: "TX_ID", key: "actions" },
+  { table: "ARPB_CHG_ENTRY_DX", fkCol: "TX_ID", key: "charge_diagnoses" },
+  { table: "TX_DIAG", fkCol: "TX_ID", key: "diagnoses" },
+  { table: "PMT_EOB_INFO_II", fkCol: "TX_ID", key: "eob_info" },
+  { table: "ARPB_TX_MATCH_HX", fkCol: "TX_ID", key: "match_history" },
+  { table: "ARPB_TX_CHG_REV_HX", fkCol: "TX_ID", key: "charge_revision_history" },
+  { table: "ARPB_TX_STMCLAIMHX", fkCol: "TX_ID", key: "statement_claim_history" },
+  { table: "ARPB_TX_MODERATE", fkCol: "TX_ID", key: "moderation" },
+  { table: "ARPB_TX_MODIFIERS", fkCol: "ETR_ID", key: "modifiers" },
+  { table: "ARPB_AUTH_INFO", fkCol: "TX_ID", key: "auth_info" },
+  { table: "ARPB_TX_VOID", fkCol: "TX_ID", key: "void_info" },
+  { table: "ARPB_TX_STMT_DT", fkCol: "TX_ID", key: "statement_dates" },
+  // Hospital transaction children (HSP_TRANSACTIONS keyed on TX_ID)
+  { table: "HSP_TX_NAA_DETAIL", fkCol: "TX_ID", key: "naa_detail" },
+  { table: "PMT_EOB_INFO_I", fkCol: "TX_ID", key: "eob_info_i" },
+  { table: "HSP_TX_LINE_INFO", fkCol: "TX_ID", key: "line_info" },
+  { table: "HSP_PMT_LINE_REMIT", fkCol: "TX_ID", key: "line_remit" },
+  { table: "HSP_PMT_REMIT_DETAIL", fkCol: "TX_ID", key: "remit_detail" },
+  { table: "HSP_TX_RMT_CD_LST", fkCol: "TX_ID", key: "remit_code_list" },
+  { table: "HSP_TX_AUTH_INFO", fkCol: "TX_ID", key: "hsp_auth_info" },
+  { table: "HSP_TX_DIAG", fkCol: "TX_ID", key: "hsp_diagnoses" },
+  { table: "TX_NDC_INFORMATION", fkCol: "TX_ID", key: "ndc_info" },
+  { table: "SVC_PMT_HISTORY", fkCol: "TX_ID", key: "svc_payment_history" },
+  { table: "BDC_PB_CHGS", fkCol: "TX_ID", key: "billing_denial_charges" },
+  { table: "ARPB_PMT_RELATED_DENIALS", fkCol: "TX_ID", key: "payment_related_denials" },
+];
+
+export const referralChildren: ChildSpec[] = [
+  { table: "REFERRAL_HIST", fkCol: "REFERRAL_ID", key: "history" },
+  { table: "REFERRAL_DX", fkCol: "REFERRAL_ID", key: "diagnoses" },
+  { table: "REFERRAL_PX", fkCol: "REFERRAL_ID", key: "procedures" },
+  { table: "REFERRAL_NOTES", fkCol: "REFERRAL_ID", key: "notes" },
+  { table: "REFERRAL_REASONS", fkCol: "REFERRAL_ID", key: "reasons" },
+  { table: "REFERRAL_APT", fkCol: "REFERRAL_ID", key: "appointments" },
+  { table: "REFERRAL_CVG", fkCol: "REFERRAL_ID", key: "coverage" },
+  { table: "REFERRAL_CVG_AUTH", fkCol: "REFERRAL_ID", key: "coverage_auth" },
+  { table: "EPA_INFO", fkCol: "REFERRAL_ID", key: "prior_auth", merged: true },
+  { table: "REFERRAL_ORG_FILTER_SA", fkCol: "REFERRAL_ID", key: "org_filter" },
+  { table: "REFERRAL_CROSS_ORG", fkCol: "REFERRAL_ID", key: "cross_org" },
+  { table: "RFL_REF_TO_REGIONS", fkCol: "REFERRAL_ID", key: "ref_to_regions" },
+];
+
+export const problemChildren: ChildSpec[] = [
+  { table: "PROB_UPDATES", fkCol: "PROBLEM_LIST_ID", key: "updates" },
+  { table: "PL_SYSTEMS", fkCol: "PROBLEM_LIST_ID", key: "body_systems" },
+  { table: "PROBLEM_LIST_ALL", fkCol: "PROBLEM_LIST_ID", key: "all_info" },
+  { table: "PROBLEM_LIST_HX", fkCol: "PROBLEM_LIST_ID", key: "history" },
+];
+
+export const allergyChildren: ChildSpec[] = [
+  { table: "ALLERGY_REACTIONS", fkCol: "ALLERGY_ID", key: "reactions" },
+];
+
+export const patRelChildren: ChildSpec[] = [
+  { table: "PAT_REL_PHONE_NUM", fkCol: "PAT_RELATIONSHIP_ID", key: "phone_numbers" },
+  { table: "PAT_RELATIONSHIP_ADDR", fkCol: "PAT_RELATIONSHIP_ID", key: "addresses" },
+  { table: "PAT_REL_CONTEXT", fkCol: "PAT_RELATIONSHIP_ID", key: "contexts" },
+  { table: "PAT_REL_EMAIL_ADDR", fkCol: "PAT_RELATIONSHIP_ID", key: "email_addresses" },
+  { table: "PAT_REL_LANGUAGES", fkCol: "PAT_RELATIONSHIP_ID", key: "languages" },
+  { table: "PAT_REL_SPEC_NEEDS", fkCol: "PAT_RELATIONSHIP_ID", key: "special_needs" },
+  { table: "PAT_RELATIONSHIP_LIST_HX", fkCol: "RELATIONSHIP_ID", parentCol: "PAT_RELATIONSHIP_ID", key: "history" },
+  // Multiple-response address lines, keyed on the relationship's PAT_ID + LINE
+  { table: "PAT_REL_ADDR", fkCol: ["PAT_ID", "GROUP_LINE"], parentCol: ["PAT_ID", "LINE"], key: "address_lines" },
+];
+
+export const coverageChildren: ChildSpec[] = [
+  { table: "CVG_ACCT_LIST", fkCol: "CVG_ID", key: "account_list" },
+  { table: "COVERAGE_COPAY_ECD", fkCol: "COVERAGE_ID", key: "copay_details" },
+  { table: "COVERAGE_MEMBER_LIST", fkCol: "COVERAGE_ID", key: "member_list" },
+  { table: "COVERAGE_SPONSOR", fkCol: "CVG_ID", key: "sponsor" },
+  { table: "CVG_AP_CLAIMS", fkCol: "COVERAGE_ID", key: "claims" },
+  { table: "CVG_SUBSCR_ADDR", fkCol: "CVG_ID", key: "subscriber_address" },
+  { table: "SERVICE_BENEFITS", fkCol: "CVG_FOR_SVC_TYPE_ID", key: "service_benefits" },
+];
+
+// Real-time benefit check results, keyed on MED_ESTIMATE_ID
+export const medCoverageChildren: ChildSpec[] = [
+  { table: "MED_CVG_DETAILS", fkCol: "MED_ESTIMATE_ID", key: "details" },
+  { table: "MED_CVG_ESTIMATE_VALS", fkCol: "MED_ESTIMATE_ID", key: "estimate_values" },
+  { table: "MED_CVG_RESPONSE_RSLT", fkCol: "MED_ESTIMATE_ID", key: "response_results" },
+  { table: "MED_CVG_RESP_RSLT_DETAIL", fkCol: "MED_ESTIMATE_ID", key: "response_result_details" },
+  { table: "MED_CVG_STATUS_DETAILS", fkCol: "MED_ESTIMATE_ID", key: "status_details" },
+  { table: "MED_CVG_ALTERNATIVES", fkCol: "MED_ESTIMATE_ID", key: "alternatives" },
+  { table: "MED_CVG_DX_VALUE", fkCol: "MED_ESTIMATE_ID", key: "diagnoses" },
+  { table: "MED_CVG_USERACTION", fkCol: "MED_ESTIMATE_ID", key: "user_actions" },
+];
+
+export const medChildren: ChildSpec[] = [
+  { table: "ORDER_DX_MED", fkCol: "ORDER_MED_ID", key: "diagnoses" },
+  { table: "ORDER_MEDINFO", fkCol: "ORDER_MED_ID", key: "med_info" },
+  { table: "ORDER_MED_SIG", fkCol: "ORDER_ID", key: "signature" },
+  { table: "ORD_DOSING_PARAMS", fkCol: "ORDER_ID", key: "dosing_params", merged: true },
+  { table: "ORDER_RPTD_SIG_HX", fkCol: "ORDER_ID", key: "reported_sig_history" },
+  { table: "ORDER_RPTD_SIG_TEXT", fkCol: "ORDER_ID", key: "reported_sig_text" },
+  { table: "DUPMED_DISMISS_HH_INFO", fkCol: "ORDER_ID", key: "dup_dismiss" },
+  { table: "ORDER_MED_MORPHINE_EQUIV", fkCol: "ORDER_ID", key: "morphine_equiv" },
+  { table: "ORDER_MED_VITALS", fkCol: "ORDER_ID", key: "med_vitals" },
+  { table: "ORD_MED_USER_ADMIN", fkCol: "ORDER_ID", key: "user_admin" },
+  { table: "PRESC_ID", fkCol: "ORDER_ID", key: "prescription_ids" },
+  // Dispense history: one row per verified pharmacy fill, each with the sig
+  // printed on its label (MED_DISPENSE_SIG, keyed on the dispense document)
+  { table: "ORDER_RXVER_NOADSN", fkCol: "ORDER_MED_ID", key: "dispenses", children: [
+    { table: "MED_DISPENSE_SIG", fkCol: "DOCUMENT_ID", key: "sig" },
+  ] },
+  // Administration history: one row per charted dose
+  { table: "ORD_MED_ADMININSTR", fkCol: "ORDER_MED_ID", key: "administrations" },
+  { table: "ORDER_DISP_INFO", fkCol: "ORDER_MED_ID", key: "dispense_info" },
+  { table: "MED_CVG_INFO", fkCol: "ORDER_ID", key: "coverage_estimates", children: medCoverageChildren },
+];
+
+export const immuneChildren: ChildSpec[] = [
+  { table: "IMMUNE_HISTORY", fkCol: "IMMUNE_ID", key: "history" },
+  { table: "IMM_ADMIN", fkCol: "DOCUMENT_ID", key: "administrations" },
+  { table: "IMM_ADMIN_COMPONENTS", fkCol: "DOCUMENT_ID", key: "components" },
+  { table: "IMM_ADMIN_GROUPS", fkCol: "DOCUMENT_ID", key: "groups" },
+  { table: "IMM_DUE", fkCol: "DOCUMENT_ID", key: "due_forecast" },
+  { table: "IMM_ADMIN_GROUPS_FT", fkCol: "DOCUMENT_ID", key: "admin_groups_free_text" },
+];
+
+export const remitChildren: ChildSpec[] = [
+  { table: "CL_RMT_SVCE_LN_INF", fkCol: "IMAGE_ID", key: "service_lines" },
+  { table: "CL_RMT_CLM_INFO", fkCol: "IMAGE_ID", key: "claim_info" },
+  { table: "CL_RMT_CLM_ENTITY", fkCol: "IMAGE_ID", key: "claim_entities" },
+  { table: "CL_RMT_PRV_SUM_INF", fkCol: "IMAGE_ID", key: "provider_summary" },
+  { table: "CL_RMT_PRV_SUP_INF", fkCol: "IMAGE_ID", key: "provider_supplemental" },
+  { table: "CL_RMT_INP_ADJ_INF", fkCol: "IMAGE_ID", key: "inpatient_adjustments" },
+  { table: "CL_RMT_OPT_ADJ_INF", fkCol: "IMAGE_ID", key: "outpatient_adjustments" },
+  { table: "CL_RMT_SVC_LVL_ADJ", fkCol: "IMAGE_ID", key: "service_level_adjustments" },
+  { table: "CL_RMT_SVC_LVL_REF", fkCol: "IMAGE_ID", key: "service_level_refs" },
+  { table: "CL_RMT_SVC_AMT_INF", fkCol: "IMAGE_ID", key: "service_amounts" },
+  { table: "CL_RMT_SVC_DAT_INF", fkCol: "IMAGE_ID", key: "service_dates" },
+  { table: "CL_RMT_DELIVER_MTD", fkCol: "IMAGE_ID", key: "delivery_methods" },
+  { table: "CL_RMT_HC_RMK_CODE", fkCol: "IMAGE_ID", key: "remark_codes" },
+  { table: "CL_RMT_CLM_DT_INFO", fkCol: "IMAGE_ID", key: "claim_date_info" },
+];
+
+export const harChildren: ChildSpec[] = [
+  { table: "HSP_ACCT_CVG_LIST", fkCol: "HSP_ACCOUNT_ID", key: "coverage_list" },
+  { table: "HSP_ACCT_DX_LIST", fkCol: "HSP_ACCOUNT_ID", key: "diagnoses" },
+  { table: "HSP_ACCT_PRORATION", fkCol: "HSP_ACCOUNT_ID", key: "proration" },
+  { table: "HSP_ACCT_OTHR_PROV", fkCol: "HSP_ACCOUNT_ID", key: "other_providers" },
+  { table: "HSP_ACCT_ADJ_LIST", fkCol: "HSP_ACCOUNT_ID", key: "adjustments" },
+  { table: "HSP_ACCT_BILL_DRG", fkCol: "HSP_ACCOUNT_ID", key: "billing_drg" },
+  { table: "HSP_ACCT_CLAIM_HAR", fkCol: "ACCT_ID", key: "claims" },
+  { table: "HSP_ACCT_SBO", fkCol: "HSP_ACCOUNT_ID", key: "split_billing" },
+  { table: "HSP_ACCT_CHG_LIST", fkCol: "HSP_ACCOUNT_ID", key: "charge_list" },
+  { table: "HSP_ACCT_PYMT_LIST", fkCol: "HSP_ACCOUNT_ID", key: "payment_list" },
+  { table: "HSP_ACCT_ATND_PROV", fkCol: "HSP_ACCOUNT_ID", key: "attending_providers" },
+  { table: "HSP_ACCT_ADMIT_DX", fkCol: "HSP_ACCOUNT_ID", key: "admit_diagnoses" },
+  { table: "HSP_ACCT_LETTERS", fkCol: "HSP_ACCOUNT_ID", key: "letters" },
+  { table: "HSP_CLAIM_PRINT", fkCol: "HSP_ACCOUNT_ID", key: "claim_prints" },
+  { table: "HSP_TRANSACTIONS", fkCol: "HSP_ACCOUNT_ID", key: "transactions", merged: true },
+  { table: "CODE_INT_COMB_LN", fkCol: "HSP_ACCOUNT_ID", key: "code_int" },
+  { table: "HSP_ACCT_CL_AG_HIS", fkCol: "HSP_ACCOUNT_ID", key: "collection_agency_history" },
+  { table: "HSP_ACCT_EARSTADDR", fkCol: "ACCT_ID", key: "earliest_address" },
+  { table: "HSP_ACCT_EXTINJ_CD", fkCol: "HSP_ACCOUNT_ID", key: "external_injury_codes" },
+  { table: "HSP_ACCT_OCUR_HAR", fkCol: "ACCT_ID", key: "occurrence_codes" },
+  { table: "DOCS_FOR_HOSP_ACCT", fkCol: "ACCT_ID", key: "linked_documents" },
+  { table: "RECONCILE_CLM", fkCol: "HSP_ACCOUNT_ID", key: "reconcile_claims" },
+  // HSP_BKT_* tables — children of HSP_BUCKET (no HSP_BUCKET table in export; wire via HSP_ACCOUNT_ID)
+  { table: "HSP_BKT_ADDTL_REC", fkCol: "HSP_ACCOUNT_ID", key: "bucket_additional_records" },
+  { table: "HSP_BKT_NAA_ADJ_HX", fkCol: "HSP_ACCOUNT_ID", key: "bucket_naa_adj_history" },
+  { table: "HSP_BKT_ADJ_TXS", fkCol: "HSP_ACCOUNT_ID", key: "bucket_adj_transactions" },
+  { table: "HSP_BKT_PAYMENT", fkCol: "HSP_ACCOUNT_ID", key: "bucket_payments" },
+  { table: "HSP_BKT_INV_NUM", fkCol: "HSP_ACCOUNT_ID", key: "bucket_invoice_numbers" },
+  { table: "HSP_BKT_NAA_HX_HTR", fkCol: "HSP_ACCOUNT_ID", key: "bucket_naa_history" },
+  { table: "HSP_BKT_NAA_TX_TYP", fkCol: "HSP_ACCOUNT_ID", key: "bucket_naa_tx_types" },
+];
+
+export const acctChildren: ChildSpec[] = [
+  { table: "ACCOUNT_CONTACT", fkCol: "ACCOUNT_ID", key: "contacts", merged: true },
+  { table: "ACCT_COVERAGE", fkCol: "ACCOUNT_ID", key: "coverage_links" },
+  { table: "ACCT_TX", fkCol: "ACCOUNT_ID", key: "transaction_links" },
+  { table: "ACCT_ADDR", fkCol: "ACCOUNT_ID", key: "addresses" },
+  { table: "ACCOUNT_CREATION", fkCol: "ACCT_ID", key: "creation_info" },
+  { table: "GUAR_ACCT_STMT_HX", fkCol: "ACCOUNT_ID", key: "statement_history" },
+  { table: "GUAR_PMT_SCORE_PB_HX", fkCol: "ACCOUNT_ID", key: "payment_score" },
+  { table: "GUAR_ADDR_HX", fkCol: "ACCOUNT_ID", key: "address_history" },
+  { table: "ACCT_HOME_PHONE_HX", fkCol: "ACCOUNT_ID", key: "phone_history" },
+  { table: "NOTES_ACCT", fkCol: "ACCOUNT_ID", key: "notes" },
+];
+
+export const claimChildren: ChildSpec[] = [
+  { table: "SVC_LN_INFO", fkCol: "RECORD_ID", key: "service_lines", merged: true },
+  { table: "CLM_DX", fkCol: "RECORD_ID", key: "diagnoses" },
+  { table: "CLM_NOTE", fkCol: "RECORD_ID", key: "notes" },
+  { table: "CLM_VALUE_RECORD", fkCol: "RECORD_ID", key: "value_records" },
+  { table: "OCC_CD", fkCol: "RECORD_ID", key: "occurrence_codes" },
+  { table: "REL_CAUSE_CD", fkCol: "RECORD_ID", key: "related_causes" },
+  // Additional claim children (FK: RECORD_ID = CLM_VALUES.RECORD_ID)
+  { table: "EXT_CAUSE_INJ_DX", fkCol: "RECORD_ID", key: "external_cause_injury_dx" },
+  { table: "PAT_RSN_VISIT_DX", fkCol: "RECORD_ID", key: "patient_reason_visit_dx" },
+];
+
+// The arrays from here on go through childArrays() in project.ts, so every
+// key is present on the parent — [] when the export has no rows.
+
+// IP_FLWSHT_MEAS rows of one flowsheet record (FSD_ID), with their edit history
+export const flowsheetRecordChildren: ChildSpec[] = [
+  { table: "IP_FLWSHT_MEAS", fkCol: "FSD_ID", key: "measurements", children: [
+    { table: "IP_FLWSHT_EDITED", fkCol: ["FSD_ID", "EDITED_LINE"], parentCol: ["FSD_ID", "LINE"], key: "edits" },
+  ] },
+];
+
+// A questionnaire submission's answer record (CL_QANSWER) and its answers,
+// one row per question per contact (CL_QANSWER_OVTM). The submission rows
+// name the record in QUESR_ANS_ID.
+const questionnaireAnswers: ChildSpec[] = [
+  { table: "CL_QANSWER", fkCol: "ANSWER_ID", parentCol: "QUESR_ANS_ID", key: "answer_record" },
+  { table: "CL_QANSWER_OVTM", fkCol: "ANSWER_ID", parentCol: "QUESR_ANS_ID", key: "answers" },
+];
+
+// Patient-level tables keyed on PAT_ID, spread onto the record itself
+export const patientChildren: ChildSpec[] = [
+  // Review histories
+  { table: "PATIENT_ALG_UPD_HX", fkCol: "PAT_ID", key: "allergy_update_history" },
+  { table: "MEDS_REV_HX", fkCol: "PAT_ID", key: "medication_review_history" },
+  { table: "PROB_LIST_REV_HX", fkCol: "PAT_ID", key: "problem_review_history" },
+  // Patient demographics extensions
+  { table: "PATIENT_RACE", fkCol: "PAT_ID", key: "race" },
+  { table: "PAT_ADDRESS", fkCol: "PAT_ID", key: "addresses" },
+  { table: "PAT_EMAILADDRESS", fkCol: "PAT_ID", key: "email_addresses" },
+  { table: "PAT_ADDR_CHNG_HX", fkCol: "PAT_ID", key: "address_change_history" },
+  { table: "IDENTITY_ID", fkCol: "PAT_ID", key: "identity_ids" },
+  { table: "PATIENT_ALIAS", fkCol: "PAT_ID", key: "aliases" },
+  { table: "PAT_PCP", fkCol: "PAT_ID", key: "primary_care_providers" },
+  { table: "PAT_PREF_PHARMACY", fkCol: "PAT_ID", key: "preferred_pharmacies" },
+  { table: "PAT_RCNT_USD_PHRMS", fkCol: "PAT_ID", key: "recent_pharmacies" },
+  { table: "PAT_RELATIONSHIPS", fkCol: "PAT_ID", key: "relationships" },
+  { table: "PATIENT_GOALS", fkCol: "PAT_ID", key: "goals" },
+  { table: "PATIENT_DOCS", fkCol: "PAT_ID", key: "patient_documents" },
+  // Patient-level children (Batch 1)
+  { table: "PAT_RELATIONSHIP_LIST", fkCol: "PAT_ID", key: "relationship_list", children: patRelChildren },
+  { table: "PAT_ADDL_ADDR_INFO", fkCol: "PAT_ID", key: "additional_addresses" },
+  { table: "PAT_MEDS_HX", fkCol: "PAT_ID", key: "medication_history" },
+  { table: "PAT_ACCT_CVG", fkCol: "PAT_ID", key: "account_coverage" },
+  { table: "PAT_PRIM_LOC", fkCol: "PAT_ID", key: "primary_location" },
+  { table: "OTHER_COMMUNCTN", fkCol: "PAT_ID", key: "other_communications" },
+  { table: "QUESR_LST_ANS_INFO", fkCol: "PAT_ID", key: "questionnaire_answers", children: questionnaireAnswers },
+  { table: "QUESR_TEMP_ANSWERS", fkCol: "PAT_ID", key: "questionnaire_temp_answers" },
+  { table: "MYC_PATIENT", fkCol: "PAT_ID", key: "mychart_patient" },
+  { table: "PROB_LIST_REVIEWED", fkCol: "PAT_ID", key: "problem_list_reviewed" },
+  { table: "PT_GOALS_INFO", fkCol: "PAT_ID", key: "patient_goals_info" },
+  { table: "EXT_DATA_LAST_DONE", fkCol: "PAT_ID", key: "external_data_last_done" },
+  { table: "ANTICOAG_SELF_REGULATING", fkCol: "PAT_ID", key: "anticoag_self_regulating" },
+  { table: "CLAIMS_DERIVE_PAT_FLAGS", fkCol: "PAT_ID", key: "claims_derive_pat_flags" },
+  { table: "COMMUNITY_RESRC_REVIEWED", fkCol: "PAT_ID", key: "community_resource_reviewed" },
+  { table: "HM_ENC_DATE", fkCol: "PAT_ID", key: "hm_enc_date" },
+  { table: "IMMNZTN_LAST_REVIEW", fkCol: "PAT_ID", key: "immunization_last_review" },
+  { table: "LINES_DRAINS_LIST", fkCol: "PAT_ID", key: "lines_drains_list" },
+  { table: "MEDS_REV_LAST_LIST", fkCol: "PAT_ID", key: "meds_review_last_list" },
+  { table: "PAT_CVG_FILE_ORDER", fkCol: "PAT_ID", key: "coverage_file_order" },
+  { table: "PAT_RES_CODE", fkCol: "PAT_ID", key: "residence_code" },
+  { table: "TEETH_REVIEWED", fkCol: "PAT_ID", key: "teeth_reviewed" },
+  { table: "V_EHI_CLM_FILTER_STATIC", fkCol: "PAT_ID", key: "claim_filter_static" },
+];
+
+// record.health_maintenance.*
+export const healthMaintenanceChildren: ChildSpec[] = [
+  { table: "HM_HISTORICAL_STATUS", fkCol: "PAT_ID", key: "historical_status" },
+  { table: "HM_HISTORY", fkCol: "PAT_ID", key: "history" },
+  { table: "PAT_HM_CUR_GUIDE", fkCol: "PAT_ID", key: "current_guides" },
+  { table: "PATIENT_HMT_STATUS", fkCol: "PAT_ID", key: "topic_status" },
+  { table: "HM_FORECAST_INFO", fkCol: "PAT_ID", key: "forecast" },
+];
+
+export const claimPrintChildren: ChildSpec[] = [
+  { table: "HSP_CLP_REV_CODE", fkCol: "CLAIM_PRINT_ID", key: "rev_codes" },
+  { table: "HSP_CLP_CMS_LINE", fkCol: "CLAIM_PRINT_ID", key: "cms_lines" },
+  { table: "HSP_CLP_DIAGNOSIS", fkCol: "CLAIM_PRINT_ID", key: "diagnoses" },
+  { table: "HSP_CLAIM_DETAIL1", fkCol: "CLAIM_PRINT_ID", key: "detail_1" },
+  { table: "HSP_CLAIM_DETAIL2", fkCol: "CLAIM_PRINT_ID", key: "detail_2" },
+  { table: "HSP_CLP_CMS_TX_PIECES", fkCol: "CLAIM_PRINT_ID", key: "cms_tx_pieces" },
+  { table: "HSP_CLP_UB_TX_PIECES", fkCol: "CLAIM_PRINT_ID", key: "ub_tx_pieces" },
+  { table: "CLP_NON_GRP_TX_IDS", fkCol: "CLAIM_PRINT_ID", key: "non_group_tx" },
+  { table: "CLP_OCCUR_DATA", fkCol: "CLAIM_PRINT_ID", key: "occurrence_data" },
+];
+
+export const invoiceChildren: ChildSpec[] = [
+  { table: "INV_BASIC_INFO", fkCol: "INV_ID", key: "basic_info" },
+  { table: "INV_TX_PIECES", fkCol: "INV_ID", key: "tx_pieces" },
+  { table: "INV_NUM_TX_PIECES", fkCol: "INV_ID", key: "num_tx_pieces" },
+  { table: "INV_CLM_LN_ADDL", fkCol: "INVOICE_ID", key: "claim_line_addl" },
+  { table: "INV_DX_INFO", fkCol: "INVOICE_ID", key: "diagnoses" },
+  { table: "INV_PMT_RECOUP", fkCol: "INVOICE_ID", key: "payment_recoup" },
+];
+
+export const reconcileChildren: ChildSpec[] = [
+  { table: "RECONCILE_CLAIM_STATUS", fkCol: "CLAIM_RECON_ID", key: "status_timeline" },
+  { table: "RECONCILE_CLM_OT", fkCol: "CLAIM_REC_ID", key: "status_detail" },
+];
+
+export const messageChildren: ChildSpec[] = [
+  { table: "MSG_TXT", fkCol: "MESSAGE_ID", key: "text" },
+  { table: "MYC_MESG_CHILD", fkCol: "MESSAGE_ID", key: "child_messages" },
+  { table: "MYC_MESG_RTF_TEXT", fkCol: "MESSAGE_ID", key: "rtf_text" },
+  { table: "MYC_MESG_QUESR_ANS", fkCol: "MESSAGE_ID", key: "questionnaire_answers", children: questionnaireAnswers },
+  { table: "MYC_MESG_CNCL_RSN", fkCol: "MESSAGE_ID", key: "cancel_reasons" },
+  { table: "MYC_MESG_ORD_ITEMS", fkCol: "MESSAGE_ID", key: "order_items" },
+];
+
+export const threadChildren: ChildSpec[] = [
+  { table: "MYC_CONVO_MSGS", fkCol: "THREAD_ID", key: "messages" },
+  { table: "MYC_CONVO_VIEWERS", fkCol: "THREAD_ID", key: "viewers" },
+  { table: "MYC_CONVO_USERS", fkCol: "THREAD_ID", key: "users" },
+  { table: "MYC_CONVO_ENCS", fkCol: "THREAD_ID", key: "encounter_links" },
+  { table: "MYC_CONVO_AUDIENCE", fkCol: "THREAD_ID", key: "audience" },
+  { table: "IB_MESSAGE_THREAD", fkCol: "THREAD_ID", key: "ib_thread" },
+  { table: "MYC_CONVO_ABT_MED_ADVICE", fkCol: "THREAD_ID", key: "med_advice" },
+  { table: "MYC_CONVO_ABT_CUST_SVC", fkCol: "THREAD_ID", key: "customer_service" },
+];
+
+export const documentChildren: ChildSpec[] = [
+  { table: "DOC_LINKED_PATS", fkCol: "DOCUMENT_ID", key: "linked_patients" },
+  { table: "DOC_INFO_DICOM", fkCol: "DOCUMENT_ID", key: "dicom" },
+  { table: "DOC_CSN_REFS", fkCol: "DOCUMENT_ID", key: "csn_refs" },
+  { table: "DOCS_RCVD_ALGS", fkCol: "DOCUMENT_ID", key: "received_allergies" },
+  { table: "DOCS_RCVD_ASMT", fkCol: "DOCUMENT_ID", key: "received_assessments" },
+  { table: "DOCS_RCVD_PROC", fkCol: "DOCUMENT_ID", key: "received_procedures" },
+  { table: "DOCS_RCVD_ALG_REAC", fkCol: "DOCUMENT_ID", key: "received_allergy_reactions" },
+  { table: "DOCS_RCVD_ALGS_CMT", fkCol: "DOCUMENT_ID", key: "received_allergy_comments" },
+  { table: "DOC_LINKED_PAT_CSNS", fkCol: "DOCUMENT_ID", key: "linked_patient_csns" },
+];
+
+export const episodeChildren: ChildSpec[] = [
+  // CAREPLAN_* are matched on EPISODE_ID values as the columns are named
+  { table: "CAREPLAN_INFO", fkCol: "PAT_ENC_CSN_ID", key: "care_plans" },
+  { table: "CAREPLAN_ENROLLMENT_INFO", fkCol: "CAREPLAN_ID", key: "enrollments" },
+  { table: "ALL_EPISODE_CSN_LINKS", fkCol: "EPISODE_ID", key: "csn_links" },
+  { table: "EPISODE_ALL", fkCol: "EPISODE_ID", key: "episode_all" },
+  { table: "PEF_NTFY_INSTR", fkCol: "EPISODE_ID", key: "notify_instructions" },
+  { table: "RECURRING_BILLING_INFO", fkCol: "EPISODE_ID", key: "recurring_billing" },
+  { table: "V_EHI_HSB_LINKED_PATS", fkCol: "EPISODE_ID", key: "linked_patients" },
+];
+
+/**
+ * Parent table and key column for each top-level ChildSpec array (the value
+ * passed as parentId). Nested `children` arrays are reached through their
+ * parent spec and aren't listed here.
+ */
+export interface ChildGroup {
+  specs: ChildSpec[];
+  parentTable: string;
+  parentCol: string;
+}
+
+export const childGroups: ChildGroup[] = [
+  { specs: encounterChildren, parentTable: "PAT_ENC", parentCol: "PAT_ENC_CSN_ID" },
+  { specs: orderChildren, parentTable: "ORDER_PROC", parentCol: "ORDER_PROC_ID" },
+  { specs: noteChildren, parentTable: "HNO_INFO", parentCol: "NOTE_ID" },
+  { specs: txChildren, parentTable: "ARPB_TRANSACTIONS", parentCol: "TX_ID" },
+  { specs: referralChildren, parentTable: "REFERRAL", parentCol: "REFERRAL_ID" },
+  { specs: problemChildren, parentTable: "PROBLEM_LIST", parentCol: "PROBLEM_LIST_ID" },
+  { specs: allergyChildren, parentTable: "ALLERGY", parentCol: "ALLERGY_ID" },
+  { specs: coverageChildren, parentTable: "COVERAGE", parentCol: "COVERAGE_ID" },
+  { specs: medChildren, parentTable: "ORDER_MED", parentCol: "ORDER_MED_ID" },
+  { specs: immuneChildren, parentTable: "IMMUNE", parentCol: "IMMUNE_ID" },
+  { specs: remitChildren, parentTable: "CL_REMIT", parentCol: "IMAGE_ID" },
+  { specs: harChildren, parentTable: "HSP_ACCOUNT", parentCol: "HSP_ACCOUNT_ID" },
+  { specs: acctChildren, parentTable: "ACCOUNT", parentCol: "ACCOUNT_ID" },
+  { specs: claimChildren, parentTable: "CLM_VALUES", parentCol: "RECORD_ID" },
+  { specs: flowsheetRecordChildren, parentTable: "IP_FLWSHT_REC", parentCol: "FSD_ID" },
+  { specs: patientChildren, parentTable: "PATIENT", parentCol: "PAT_ID" },
+  { specs: healthMaintenanceChildren, parentTable: "PATIENT", parentCol: "PAT_ID" },
+  { specs: claimPrintChildren, parentTable: "HSP_CLAIM_PRINT", parentCol: "CLAIM_PRINT_ID" },
+  { specs: invoiceChildren, parentTable: "INVOICE", parentCol: "INVOICE_ID" },
+  { specs: reconcileChildren, parentTable: "RECONCILE_CLM", parentCol: "CLAIM_REC_ID" },
+  { specs: messageChildren, parentTable: "MYC_MESG", parentCol: "MESSAGE_ID" },
+  { specs: threadChildren, parentTable: "MYC_CONVO", parentCol: "THREAD_ID" },
+  { specs: documentChildren, parentTable: "DOC_INFORMATION", parentCol: "DOC_INFO_ID" },
+  { specs: episodeChildren, parentTable: "EPISODE", parentCol: "EPISODE_ID" },
+];
+
+// ─── Lookups ───────────────────────────────────────────────────────────────
+
+export interface LookupSpec {
+  key: string;               // property set on the row
+  idCol: string | string[];  // column holding the ID; with several, the first non-null
+  table: string;
+  pkCol: string;
+  nameCol: string;
+}
+
+const provName = (key: string, idCol: string): LookupSpec =>
+  ({ key, idCol, table: "CLARITY_SER", pkCol: "PROV_ID", nameCol: "PROV_NAME" });
+const dxName: LookupSpec = { key: "_dx_name", idCol: "DX_ID", table: "CLARITY_EDG", pkCol: "DX_ID", nameCol: "DX_NAME" };
+const procName = (key: string): LookupSpec =>
+  ({ key, idCol: "PROC_ID", table: "CLARITY_EAP", pkCol: "PROC_ID", nameCol: "PROC_NAME" });
+const deptName = (idCol: string | string[]): LookupSpec =>
+  ({ key: "_department", idCol, table: "CLARITY_DEP", pkCol: "DEPARTMENT_ID", nameCol: "DEPARTMENT_NAME" });
+const formName: LookupSpec =
+  { key: "_form_name", idCol: "QUESR_ANS_FORM_ID", table: "CL_QFORM1", pkCol: "FORM_ID", nameCol: "FORM_NAME" };
+const hmTopicName = (idCol: string): LookupSpec =>
+  ({ key: "_topic_name", idCol, table: "CLARITY_HM_TOPIC", pkCol: "HM_TOPIC_ID", nameCol: "NAME" });
+
+/** Names resolved onto every projected row of a table (null when not found). */
+export const rowLookups: Record<string, LookupSpec[]> = {
+  PATIENT: [provName("_pcp_name", "CUR_PCP_PROV_ID")],
+  PAT_ENC: [
+    provName("_visit_provider", "VISIT_PROV_ID"),
+    provName("_pcp", "PCP_PROV_ID"),
+    deptName(["EFFECTIVE_DEPT_ID", "DEPARTMENT_ID"]),
+  ],
+  // ADT events: the unit (department), room and bed the patient moved into
+  CLARITY_ADT: [
+    deptName("DEPARTMENT_ID"),
+    { key: "_room", idCol: "ROOM_ID", table: "CLARITY_ROM", pkCol: "ROOM_ID", nameCol: "ROOM_NAME" },
+    { key: "_bed", idCol: "BED_ID", table: "CLARITY_BED", pkCol: "BED_ID", nameCol: "BED_LABEL" },
+  ],
+  // Imaging: reading and finalizing radiologists
+  ORDER_RAD_READING: [provName("_radiologist", "PROV_ID")],
+  FINALIZE_PHYSICIAN: [provName("_radiologist", "FINALIZE_PHYS_ID")],
+  PAT_ENC_DX: [dxName],
+  PAT_ENC_RSN_VISIT: [
+    { key: "_reason_name", idCol: "ENC_REASON_ID", table: "CL_RSN_FOR_VISIT", pkCol: "REASON_VISIT_ID", nameCol: "REASON_VISIT_NAME" },
+  ],
+  ORDER_PROC: [procName("_procedure_name")],
+  ORDER_MED: [
+    { key: "_generic_name", idCol: "MEDICATION_ID", table: "CLARITY_MEDICATION", pkCol: "MEDICATION_ID", nameCol: "GENERIC_NAME" },
+  ],
+  ORDER_DX_MED: [dxName],
+  PROBLEM_LIST: [dxName],
+  SURGICAL_HX: [procName("_proc_name")],
+  // Questionnaires: form names on submissions, question text on answers
+  QUESR_LST_ANS_INFO: [formName],
+  MYC_MESG_QUESR_ANS: [formName],
+  CL_QANSWER_OVTM: [
+    { key: "_question", idCol: "QUEST_ID", table: "CL_QQUEST_OVTM", pkCol: "QUEST_ID", nameCol: "QUESTION" },
+  ],
+  PATIENT_HMT_STATUS: [hmTopicName("QUALIFIED_HMT_ID")],
+  HM_HISTORY: [hmTopicName("HM_TOPIC_ID")],
+  HM_FORECAST_INFO: [hmTopicName("HM_TOPIC_ID")],
+  PAT_HM_CUR_GUIDE: [hmTopicName("HM_TOPIC_ID")],
+  ARPB_TRANSACTIONS: [
+    procName("_procedure_name"),
+    provName("_provider_name", "SERV_PROVIDER_ID"),
+    { key: "_payor_name", idCol: "PAYOR_ID", table: "CLARITY_EPM", pkCol: "PAYOR_ID", nameCol: "PAYOR_NAME" },
+  ],
+};
+
+// ─── Root tables ───────────────────────────────────────────────────────────
+
+/**
+ * Tables the project*() functions query directly: entity roots, bridge
+ * tables to PAT_ID, and 1:1 extensions. Split members of these come along
+ * through mergeQuery().
+ */
+export const rootTables: string[] = [
+  "PATIENT", "PATIENT_MYC",
+  "PAT_ALLERGIES", "ALLERGY", "PAT_PROBLEM_LIST", "PROBLEM_LIST", "PAT_IMMUNIZATIONS", "IMMUNE",
+  "ORDER_MED", "COVERAGE", "REFERRAL",
+  "SOCIAL_HX", "SURGICAL_HX", "FAMILY_HX_STATUS", "FAMILY_HX",
+  // Encounters
+  "PAT_ENC", "PAT_ENC_APPT", "PAT_ENC_DISP", "PAT_ENC_HSP",
+  "IP_DATA_STORE", "IP_FLOWSHEET_ROWS", "IP_FLWSHT_REC",
+  "ORDER_PROC", "ORDER_PARENT_INFO", "HNO_INFO",
+  // Billing
+  "ACCT_GUAR_PAT_INFO", "ARPB_TRANSACTIONS", "ARPB_VISITS", "HAR_ALL", "HSP_ACCOUNT",
+  "ACCOUNT", "CL_REMIT", "CLM_VALUES", "INVOICE", "RECONCILE_CLM",
+  // Messages, documents, episodes
+  "MYC_MESG", "MYC_CONVO", "DOC_INFORMATION", "PAT_EPISODE", "EPISODE",
+];
+
+/**
+ * Tables that have been looked at and aren't projected (yet) — counted as
+ * referenced so the audit only lists tables nobody has looked at.
+ */
+export const reviewedTables: string[] = [
+  // Lookup / dimension tables not yet resolved onto any row
+  "CLARITY_COMPONENT", "CLARITY_EEP", "CLARITY_EMP", "CLARITY_EPP", "CLARITY_FSC", "CLARITY_IMMUNZATN",
+  "CLARITY_LLB", "CLARITY_LOC", "CLARITY_LOT", "CLARITY_LWS", "CLARITY_MOD",
+  "CLARITY_NRG", "CLARITY_PRC", "CLARITY_RMC", "CLARITY_SA",
+  "CL_COL_AGNCY", "CL_ELG", "CL_LQH", "CL_OTL", "CL_UB_REV_CODE",
+  "REFERRAL_SOURCE", "RX_PHR", "RX_MED_TWO", "RX_NDC",
+  "LNC_DB_MAIN", "GEO_REGION", "ORG_DETAILS", "MEDICATION_LOT",
+  "SMARTTEXT", "TASK_INFO", "NAMES", "V_BIL_ALL",
+  // Claims/billing children (CLAIM_ID → CLAIM_INFO, or RECORD_ID → CLM_VALUES)
+  "CLAIM_INFO", "CLM_ALL", "CLM_INJURY_DESC", "CLM_OTHER_DXS",
+  // Benefits cluster (RECORD_ID → BENEFITS)
+  "BENEFITS", "COVERAGE_BENEFITS", "BENEFIT_SVC_TYPE",
+  // HSP claim print children (CLAIM_PRINT_ID → HSP_CLAIM_PRINT)
+  "CLP_VALUE_DATA", "CLP_NY_MEDICAID_INFO",
+  // Billing denial (BDC) cluster
+  "BDC_INFO", "BDC_ASSOC_REMARK_CODES", "HSP_BDC_DENIAL_DATA", "HSP_BDC_PAYOR", "HSP_BDC_RECV_TX",
+  // Flowsheet children (FSD_ID → IP_FLWSHT_MEAS, INPATIENT_DATA_ID → IP_DATA_STORE)
+  "IP_FLO_GP_DATA", "IP_FLOW_DATERNG", "IP_FLT_DATA",
+  "IP_ORDER_REC", "IP_ORD_UNACK_PLAC", "IP_FREQUENCY", "IP_LDA_INPS_USED",
+  "IP_LDA_NOADDSINGLE", "FLWSHT_SINGL_COL",
+  // Communication preferences cluster (PREFERENCES_ID)
+  "COMMUNICATION_PREFERENCES", "COMM_PREFERENCES_APRV", "COMM_PREF_ADDL_ITEMS",
+  // Care plan / goals / episodes
+  "CAREPLAN_PT_TASK_INFO", "CAREPLAN_CNCT_INFO", "CARE_INTEGRATOR", "CARE_PATH",
+  "GOAL", "GOAL_CONTACT", "GOAL_TEMPLATES", "PT_GOALS_UPDATES",
+  "EPISODE_DEF", "EPISODE_OT", "RAD_THERAPY_EPISODE_INFO",
+  "CATARACT_PLANNING_GOALS", "CATARACT_PLANNING_INFO", "OCCURRENCE_CODES",
+  // Timeout / screening
+  "TIMEOUT", "TIMEOUT_ANSWERS", "FRM_STATUS",
+  // MDL (medication decision list)
+  "MDL_HISTORY", "MDL_MD_PRBLM_LIST",
+  // SDD (SDOH data)
+  "SDD_ENTRIES", "SDOH_DOM_CONFIG_INFO",
+  // Universal charge line children (UCL_ID)
+  "UNIV_CHG_LN_MSG_HX", "UNIV_CHG_LN_DX", "UNIV_CHG_LN_MOD", "UCL_NDC_CODES",
+  // Miscellaneous patient/encounter-related
+  "ALLERGY_FLAG", "APPT_REQUEST", "ED_IEV_EVENT_INFO", "HM_PLAN_INFO",
+  "IDENTITY_ID_TYPE", "MEDICAL_COND_INFO", "NOTES_TRANS_AUTH",
+  "PERSON_PREFERENCES", "REPORT_SETTINGS", "ALT_BPA_ACT_TASK",
+  // Invoice children
+  "INV_CLM_ICN", "INV_NDC_INFO",
+];
+
+// ─── Join registry ─────────────────────────────────────────────────────────
+// Every column the projector filters on, and the parent row it points at.
+// load_sqlite.ts indexes these columns and records them in _foreign_key, so
+// each children()/mergeQuery() call is an index probe instead of a full scan.
+// PAT_ID and PAT_ENC_CSN_ID are indexed wherever they appear (the loader
+// treats them as FKs to PATIENT / PAT_ENC by convention).
+
+export interface ProjectionJoin {
+  table: string;
+  column: string;
+  /** The row this column points at; omitted for a table's own lookup key */
+  refTable?: string;
+  refColumn?: string;
+  kind: "child" | "split" | "bridge" | "key";
+}
+
+/** Joins project.ts writes out by hand — everything not derivable from childGroups or splits. */
+const inlineJoins: ProjectionJoin[] = [
+  // Bridge tables: patient → entity
+  { table: "PAT_ALLERGIES", column: "ALLERGY_RECORD_ID", refTable: "ALLERGY", refColumn: "ALLERGY_ID", kind: "bridge" },
+  { table: "PAT_PROBLEM_LIST", column: "PROBLEM_LIST_ID", refTable: "PROBLEM_LIST", refColumn: "PROBLEM_LIST_ID", kind: "bridge" },
+  { table: "PAT_IMMUNIZATIONS", column: "IMMUNE_ID", refTable: "IMMUNE", refColumn: "IMMUNE_ID", kind: "bridge" },
+  { table: "ACCT_GUAR_PAT_INFO", column: "ACCOUNT_ID", refTable: "ACCOUNT", refColumn: "ACCOUNT_ID", kind: "bridge" },
+  { table: "HAR_ALL", column: "ACCT_ID", refTable: "HSP_ACCOUNT", refColumn: "HSP_ACCOUNT_ID", kind: "bridge" },
+  { table: "PAT_EPISODE", column: "EPISODE_ID", refTable: "EPISODE", refColumn: "EPISODE_ID", kind: "bridge" },
+  { table: "DOC_LINKED_PATS", column: "LINKED_PAT_ID", refTable: "PATIENT", refColumn: "PAT_ID", kind: "bridge" },
+  // Root filters on columns other than PAT_ID
+  { table: "COVERAGE", column: "SUBSCR_OR_SELF_MEM_PAT_ID", refTable: "PATIENT", refColumn: "PAT_ID", kind: "child" },
+  { table: "PAT_ENC", column: "PAT_ENC_CSN_ID", kind: "key" },
+  // Encounter
+  { table: "IP_DATA_STORE", column: "INPATIENT_DATA_ID", kind: "key" },
+  { table: "PAT_ENC_HSP", column: "INPATIENT_DATA_ID", refTable: "IP_DATA_STORE", refColumn: "INPATIENT_DATA_ID", kind: "child" },
+  { table: "IP_FLOWSHEET_ROWS", column: "INPATIENT_DATA_ID", refTable: "IP_DATA_STORE", refColumn: "INPATIENT_DATA_ID", kind: "child" },
+  { table: "IP_FLWSHT_REC", column: "INPATIENT_DATA_ID", refTable: "IP_DATA_STORE", refColumn: "INPATIENT_DATA_ID", kind: "child" },
+  // Billing
+  { table: "ARPB_TRANSACTIONS", column: "ACCOUNT_ID", refTable: "ACCOUNT", refColumn: "ACCOUNT_ID", kind: "child" },
+  { table: "ARPB_VISITS", column: "PRIM_ENC_CSN_ID", refTable: "PAT_ENC", refColumn: "PAT_ENC_CSN_ID", kind: "child" },
+  { table: "CLM_VALUES", column: "INV_NUM", refTable: "INV_BASIC_INFO", refColumn: "INV_NUM", kind: "child" },
+  { table: "INV_BASIC_INFO", column: "INV_NUM", kind: "key" },
+];
+
+/**
+ * All joins the projector performs: ChildSpec FKs from childGroups,
+ * split-table join columns from split_config.json, and the hand-written
+ * joins above.
+ */
+export function projectionJoins(): ProjectionJoin[] {
+  const joins: ProjectionJoin[] = [];
+  const addSpecs = (specs: ChildSpec[], refTable: string, refCols?: string[]) => {
+    for (const spec of specs) {
+      const fkCols = keyCols(spec.fkCol);
+      const parentCols = refCols ?? keyCols(spec.parentCol ?? spec.fkCol);
+      fkCols.forEach((column, i) => joins.push({ table: spec.table, column, refTable, refColumn: parentCols[i], kind: "child" }));
+      if (spec.children) addSpecs(spec.children, spec.table);
+    }
+  };
+  for (const { specs, parentTable, parentCol } of childGroups) addSpecs(specs, parentTable, [parentCol]);
+  for (const [base, info] of Object.entries(splits)) {
+    for (const m of info.members) {
+      joins.push({ table: m.table, column: m.join_col, refTable: base, refColumn: m.base_col ?? info.base_pk, kind: "split" });
+    }
+  }
+  joins.push(...inlineJoins);
+  return joins;
+}
+
+// ─── Table accounting ──────────────────────────────────────────────────────
+
+/** Tables the projector reads, with the split members of each one it merges. */
+export function projectedTables(): Set<string> {
+  const tables = new Set<string>(rootTables);
+  const addSpecs = (specs: ChildSpec[]) => {
+    for (const s of specs) {
+      tables.add(s.table);
+      if (s.children) addSpecs(s.children);
+    }
+  };
+  for (const { specs, parentTable } of childGroups) {
+    tables.add(parentTable);
+    addSpecs(specs);
+  }
+  for (const [table, lookups] of Object.entries(rowLookups)) {
+    tables.add(table);
+    for (const l of lookups) tables.add(l.table);
+  }
+  for (const j of inlineJoins) {
+    tables.add(j.table);
+    if (j.refTable) tables.add(j.refTable);
+  }
+  for (const [base, info] of Object.entries(splits)) {
+    if (tables.has(base)) for (const m of info.members) tables.add(m.table);
+  }
+  return tables;
+}
+
+/** projectedTables() plus reviewedTables and every table in split_config.json. */
+export function referencedTables(): Set<string> {
+  const tables = projectedTables();
+  for (const t of reviewedTables) tables.add(t);
+  for (const [base, info] of Object.entries(splits)) {
+    tables.add(base);
+    for (const m of info.members) tables.add(m.table);
+  }
+  return tables;
+}
@@ -0,0 +1,247 @@
+/**
+ * tsv.ts — Streaming reader for Epic EHI TSV files.
+ *
+ * Epic's export is "mostly" plain TSV, but note and message tables
+ * (HNO_PLAIN_TEXT, MSG_TXT, MYC_MESG_RTF_TEXT, ...) can hold fields wrapped
+ * in double quotes with embedded tabs, newlines and doubled `""` quotes.
+ * Splitting naively on "\t" and "\n" shreds those into bogus rows.
+ *
+ * Some exports are also not UTF-8: Windows-1252 (from older Clarity
+ * extracts) and UTF-16 (from Windows tooling) both show up. We detect the
+ * encoding once per file — BOM first, then a NUL-byte heuristic for UTF-16,
+ * then a full UTF-8 validity scan — and decode the whole file with it.
+ *
+ * Records that can't be parsed cleanly are still yielded (best effort) but
+ * counted in `stats.malformedLines` so the loader can report them.
+ */
+
+import { openSync, readSync, closeSync } from "fs";
+
+const READ_CHUNK_BYTES = 1 << 20;
+
+/**
+ * A quoted field that never closes would otherwise swallow the rest of the
+ * file. Give up after this many physical lines, count the record as
+ * malformed, and re-read its lines as plain unquoted TSV.
+ */
+const MAX_RECORD_LINES = 1_000;
+
+export type TsvEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export interface TsvStats {
+  encoding: TsvEncoding;
+  /** Records with an unterminated quote, stray text after a closing quote, or the wrong field count */
+  malformedLines: number;
+}
+
+// ─── Encoding detection ────────────────────────────────────────────────────
+
+/** Read the first `n` bytes of a file. */
+function readHead(path: string, n: number): Uint8Array {
+  const fd = openSync(path, "r");
+  try {
+    const buf = Buffer.alloc(n);
+    const got = readSync(fd, buf, 0, n, 0);
+    return buf.subarray(0, got);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** Stream the file through a fatal UTF-8 decoder; false on the first invalid sequence. */
+function isValidUtf8(path: string): boolean {
+  const fd = openSync(path, "r");
+  const buf = Buffer.allocUnsafe(READ_CHUNK_BYTES);
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+  try {
+    while (true) {
+      const n = readSync(fd, buf, 0, buf.length, null);
+      if (n === 0) {
+        decoder.decode();
+        return true;
+      }
+      decoder.decode(buf.subarray(0, n), { stream: true });
+    }
+  } catch {
+    return false;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+export function detectEncoding(path: string): TsvEncoding {
+  const head = readHead(path, 4096);
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return "utf-8";
+  if (head[0] === 0xff && head[1] === 0xfe) return "utf-16le";
+  if (head[0] === 0xfe && head[1] === 0xff) return "utf-16be";
+
+  // No BOM: ASCII-heavy UTF-16 has a NUL in every other byte
+  let evenNul = 0, oddNul = 0;
+  for (let i = 0; i < head.length; i++) {
+    if (head[i] === 0) {
+      if (i % 2 === 0) evenNul++;
+      else oddNul++;
+    }
+  }
+  const pairs = head.length / 2;
+  if (pairs > 0 && oddNul > pairs * 0.3 && evenNul < pairs * 0.05) return "utf-16le";
+  if (pairs > 0 && evenNul > pairs * 0.3 && oddNul < pairs * 0.05) return "utf-16be";
+
+  return isValidUtf8(path) ? "utf-8" : "windows-1252";
+}
+
+// ─── Line reader ───────────────────────────────────────────────────────────
+
+/**
+ * Yield the lines of a file one at a time, decoding chunk by chunk. Stream
+ * mode keeps multi-byte sequences that straddle a chunk boundary intact;
+ * the decoder drops a leading BOM. Trailing "\r" is stripped.
+ */
+function* readLines(path: string, encoding: TsvEncoding): Generator<string> {
+  const fd = openSync(path, "r");
+  const buf = Buffer.allocUnsafe(READ_CHUNK_BYTES);
+  const decoder = new TextDecoder(encoding, { fatal: false });
+  let pending = "";
+  try {
+    while (true) {
+      const n = readSync(fd, buf, 0, buf.length, null);
+      pending += n > 0 ? decoder.decode(buf.subarray(0, n), { stream: true }) : decoder.decode();
+      let start = 0;
+      let nl: number;
+      while ((nl = pending.indexOf("\n", start)) !== -1) {
+        yield pending.slice(start, nl).replace(/\r$/, "");
+        start = nl + 1;
+      }
+      pending = pending.slice(start);
+      if (n === 0) break;
+    }
+    if (pending !== "") yield pending.replace(/\r$/, "");
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// ─── Record parser ─────────────────────────────────────────────────────────
+
+export interface ParsedRecord {
+  fields: string[];
+  /** The record ends inside a quoted field — more lines are needed */
+  incomplete: boolean;
+  /** Text followed a closing quote; that field was kept verbatim */
+  malformed: boolean;
+}
+
+/**
+ * Split one logical record into fields. A field is quoted only when it
+ * starts with `"`; inside quotes, `""` is a literal quote and tabs/newlines
+ * are data. If anything other than a tab follows the closing quote, the
+ * quote was just part of the text — keep the field verbatim and flag it.
+ */
+export function parseRecord(text: string): ParsedRecord {
+  const fields: string[] = [];
+  let malformed = false;
+  let i = 0;
+  while (true) {
+    if (text[i] === '"') {
+      let value = "";
+      let j = i + 1;
+      while (true) {
+        const q = text.indexOf('"', j);
+        if (q === -1) return { fields, incomplete: true, malformed };
+        value += text.slice(j, q);
+        if (text[q + 1] === '"') {
+          value += '"';
+          j = q + 2;
+          continue;
+        }
+        j = q + 1;
+        break;
+      }
+      if (j === text.length || text[j] === "\t") {
+        fields.push(value);
+        if (j === text.length) break;
+        i = j + 1;
+        continue;
+      }
+      malformed = true;
+      // Fall through: treat this field as unquoted from its first character
+    }
+    const tab = text.indexOf("\t", i);
+    if (tab === -1) {
+      fields.push(text.slice(i));
+      break;
+    }
+    fields.push(text.slice(i, tab));
+    i = tab + 1;
+  }
+  return { fields, incomplete: false, malformed };
+}
+
+// ─── Public API ────────────────────────────────────────────────────────────
+
+/**
+ * Open a TSV for streaming: the header is read eagerly, data rows are
+ * produced lazily so a table never has to fit in memory. `stats` fills in
+ * as rows are consumed.
+ */
+export function openTsv(
+  path: string
+): { header: string[]; rows: Generator<Record<string, string>>; stats: TsvStats } {
+  const stats: TsvStats = { encoding: detectEncoding(path), malformedLines: 0 };
+  const lines = readLines(path, stats.encoding);
+  // Lines handed back after an unterminated quote, re-read before `lines`
+  const pushback: string[] = [];
+  const nextLine = (): string | undefined => {
+    if (pushback.length > 0) return pushback.shift();
+    const r = lines.next();
+    return r.done ? undefined : r.value;
+  };
+
+  const first = nextLine();
+  if (first === undefined || first.trim() === "") {
+    lines.return(undefined);
+    return { header: [], rows: (function* () {})(), stats };
+  }
+  const header = parseRecord(first).fields;
+
+  function* rows(): Generator<Record<string, string>> {
+    try {
+      let line: string | undefined;
+      while ((line = nextLine()) !== undefined) {
+        if (line === "") continue; // skip empty trailing lines
+
+        let text = line;
+        let parsed = parseRecord(text);
+        const consumed: string[] = [];
+        while (parsed.incomplete && consumed.length < MAX_RECORD_LINES) {
+          const more = nextLine();
+          if (more === undefined) break;
+          consumed.push(more);
+          text += "\n" + more;
+          parsed = parseRecord(text);
+        }
+
+        let fields = parsed.fields;
+        let malformed = parsed.malformed;
+        if (parsed.incomplete) {
+          // Unterminated quote: read this line as plain TSV, retry the rest
+          fields = line.split("\t");
+          malformed = true;
+          pushback.unshift(...consumed);
+        }
+        if (fields.length !== header.length) malformed = true;
+        if (malformed) stats.malformedLines++;
+
+        const row: Record<string, string> = {};
+        for (let j = 0; j < header.length; j++) {
+          row[header[j]] = fields[j] ?? "";
+        }
+        yield row;
+      }
+    } finally {
+      lines.return(undefined);
+    }
+  }
+
+  return { header, rows: rows(), stats };
+}
@@ -0,0 +1,204 @@
+/**
+ * zip.ts — Minimal reader for EHI export archives.
+ *
+ * Patients receive their export as a zip, frequently a zip of zips (one per
+ * part, or an outer "download" zip around the real export). We only need
+ * to list entries and pull individual files out, so this reads the central
+ * directory directly — no dependency, and no need to unpack the whole
+ * archive first.
+ *
+ * Supports stored and deflated entries and ZIP64 (exports over 4 GB).
+ * Encrypted entries and other compression methods are rejected.
+ */
+
+import { openSync, readSync, closeSync, fstatSync, writeFileSync, createReadStream, createWriteStream } from "fs";
+import { createInflateRaw, inflateRawSync } from "zlib";
+import { pipeline } from "stream/promises";
+
+export interface ZipEntry {
+  /** Path inside the archive, "/"-separated */
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  /** Offset of the entry's local file header */
+  headerOffset: number;
+  /** Modification time from the DOS timestamp (local time, 2 s resolution) */
+  mtimeMs: number;
+  isDirectory: boolean;
+  encrypted: boolean;
+}
+
+const EOCD_SIG = 0x06054b50;
+const ZIP64_LOCATOR_SIG = 0x07064b50;
+const ZIP64_EOCD_SIG = 0x06064b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buf = Buffer.alloc(length);
+  const got = readSync(fd, buf, 0, length, position);
+  return buf.subarray(0, got);
+}
+
+function dosTimeToMs(time: number, date: number): number {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+}
+
+/** Cheap check for the local-file-header signature. */
+export function isZipFile(path: string): boolean {
+  const fd = openSync(path, "r");
+  try {
+    const head = readAt(fd, 0, 4);
+    return head.length === 4 && head.readUInt32LE(0) === LOCAL_SIG;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// ─── Central directory ─────────────────────────────────────────────────────
+
+/** List every entry in the archive from its central directory. */
+export function readZipEntries(path: string): ZipEntry[] {
+  const fd = openSync(path, "r");
+  try {
+    const { size } = fstatSync(fd);
+    // End of central directory: 22 bytes plus a comment of up to 64 KB
+    const tailLen = Math.min(size, 22 + 0xffff);
+    const tail = readAt(fd, size - tailLen, tailLen);
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIG) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) throw new Error(`${path}: not a zip archive (no end of central directory)`);
+
+    let count = tail.readUInt16LE(eocd + 10);
+    let cdSize = tail.readUInt32LE(eocd + 12);
+    let cdOffset = tail.readUInt32LE(eocd + 16);
+
+    if (cdOffset === 0xffffffff || count === 0xffff) {
+      // ZIP64: the real values live in the ZIP64 end record, found via its locator
+      const loc = eocd - 20;
+      if (loc < 0 || tail.readUInt32LE(loc) !== ZIP64_LOCATOR_SIG) {
+        throw new Error(`${path}: ZIP64 locator missing`);
+      }
+      const rec = readAt(fd, Number(tail.readBigUInt64LE(loc + 8)), 56);
+      if (rec.readUInt32LE(0) !== ZIP64_EOCD_SIG) throw new Error(`${path}: ZIP64 end record missing`);
+      count = Number(rec.readBigUInt64LE(32));
+      cdSize = Number(rec.readBigUInt64LE(40));
+      cdOffset = Number(rec.readBigUInt64LE(48));
+    }
+
+    const cd = readAt(fd, cdOffset, cdSize);
+    const entries: ZipEntry[] = [];
+    let p = 0;
+    for (let n = 0; n < count; n++) {
+      if (cd.readUInt32LE(p) !== CENTRAL_SIG) throw new Error(`${path}: corrupt central directory`);
+      const flags = cd.readUInt16LE(p + 8);
+      const nameLen = cd.readUInt16LE(p + 28);
+      const extraLen = cd.readUInt16LE(p + 30);
+      const commentLen = cd.readUInt16LE(p + 32);
+      // Bit 11 marks UTF-8 names; everything else is CP437, which is ASCII
+      // for any name an EHI export actually uses
+      const nameBytes = cd.subarray(p + 46, p + 46 + nameLen);
+      const name = (flags & 0x800 ? nameBytes.toString("utf-8") : nameBytes.toString("latin1")).replace(/\\/g, "/");
+
+      let size = cd.readUInt32LE(p + 24);
+      let compressedSize = cd.readUInt32LE(p + 20);
+      let headerOffset = cd.readUInt32LE(p + 42);
+      // ZIP64 extra field holds, in order, whichever of these overflowed
+      let e = p + 46 + nameLen;
+      const extraEnd = e + extraLen;
+      while (e + 4 <= extraEnd) {
+        const id = cd.readUInt16LE(e);
+        const len = cd.readUInt16LE(e + 2);
+        if (id === 0x0001) {
+          let q = e + 4;
+          if (size === 0xffffffff) { size = Number(cd.readBigUInt64LE(q)); q += 8; }
+          if (compressedSize === 0xffffffff) { compressedSize = Number(cd.readBigUInt64LE(q)); q += 8; }
+          if (headerOffset === 0xffffffff) { headerOffset = Number(cd.readBigUInt64LE(q)); }
+        }
+        e += 4 + len;
+      }
+
+      entries.push({
+        name,
+        method: cd.readUInt16LE(p + 10),
+        compressedSize,
+        size,
+        headerOffset,
+        mtimeMs: dosTimeToMs(cd.readUInt16LE(p + 12), cd.readUInt16LE(p + 14)),
+        isDirectory: name.endsWith("/"),
+        encrypted: (flags & 0x1) !== 0,
+      });
+      p = extraEnd + commentLen;
+    }
+    return entries;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// ─── Entry data ────────────────────────────────────────────────────────────
+
+/** Byte range of an entry's compressed data (the local header's extra field can differ from the central one). */
+function dataRange(fd: number, zipPath: string, entry: ZipEntry): { start: number; end: number } {
+  if (entry.encrypted) throw new Error(`${zipPath}!${entry.name}: encrypted entries are not supported`);
+  if (entry.method !== STORED && entry.method !== DEFLATED) {
+    throw new Error(`${zipPath}!${entry.name}: unsupported compression method ${entry.method}`);
+  }
+  const header = readAt(fd, entry.headerOffset, 30);
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_SIG) {
+    throw new Error(`${zipPath}!${entry.name}: bad local header`);
+  }
+  const start = entry.headerOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  return { start, end: start + entry.compressedSize };
+}
+
+/** Read a (small) entry fully into memory. */
+export function readZipEntry(zipPath: string, entry: ZipEntry): Buffer {
+  const fd = openSync(zipPath, "r");
+  try {
+    const { start, end } = dataRange(fd, zipPath, entry);
+    const data = readAt(fd, start, end - start);
+    return entry.method === STORED ? data : inflateRawSync(data);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** Stream an entry to a file on disk without holding it in memory. */
+export async function extractZipEntry(zipPath: string, entry: ZipEntry, destPath: string): Promise<void> {
+  const fd = openSync(zipPath, "r");
+  let range: { start: number; end: number };
+  try {
+    range = dataRange(fd, zipPath, entry);
+  } finally {
+    closeSync(fd);
+  }
+  if (entry.compressedSize === 0) {
+    writeFileSync(destPath, "");
+    return;
+  }
+  const out = createWriteStream(destPath);
+  // createReadStream's `end` is inclusive
+  const input = createReadStream(zipPath, { start: range.start, end: range.end - 1 });
+  if (entry.method === STORED) {
+    await pipeline(input, out);
+  } else {
+    await pipeline(input, createInflateRaw(), out);
+  }
+}
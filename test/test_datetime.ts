@@ -0,0 +1,100 @@
+/**
+ * test_datetime.ts — Epic date/time normalization tests (no database needed)
+ *
+ * 1. Formats: US display strings, ISO variants, explicit offsets
+ * 2. Semantics: DATETIME / Local / UTC / Attached → canonical ISO
+ * 3. Rejects: impossible dates and times stay null
+ *
+ * Usage: bun run test/test_datetime.ts
+ *        TZ=Pacific/Auckland bun run test/test_datetime.ts   # same results in any zone
+ */
+import { normalizeEpicDateTime as norm, DATETIME_SEMANTICS } from "../src/datetime";
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, msg: string) {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(msg);
+    console.log(`  FAIL: ${msg}`);
+  }
+}
+
+function expect(raw: string, semantics: Parameters<typeof norm>[1], want: string | null) {
+  const got = norm(raw, semantics);
+  assert(got === want, `${JSON.stringify(raw)} as ${semantics}: expected ${want}, got ${got}`);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// 1. FORMATS
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 1. Formats ═══");
+
+expect("9/28/2023 12:00:00 AM", "unspecified", "2023-09-28");
+expect("9/28/2023", "unspecified", "2023-09-28");
+expect("09/28/2023 2:30 PM", "unspecified", "2023-09-28T14:30:00");
+expect("9/28/2023 12:15:00 PM", "unspecified", "2023-09-28T12:15:00");
+expect("9/28/2023 14:30:05", "unspecified", "2023-09-28T14:30:05");
+expect("2023-09-28 14:30:00", "unspecified", "2023-09-28T14:30:00");
+expect("2023-09-28T14:30:00.000", "unspecified", "2023-09-28T14:30:00");
+expect("  2023-09-28  ", "unspecified", "2023-09-28");
+expect("2023-09-28T14:30:00Z", "local", "2023-09-28T14:30:00Z");
+expect("2023-09-28T01:30:00+05:00", "unspecified", "2023-09-27T20:30:00Z");
+
+// ════════════════════════════════════════════════════════════════════════════
+// 2. SEMANTICS
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 2. Semantics ═══");
+
+assert(DATETIME_SEMANTICS["DATETIME (UTC)"] === "utc", "DATETIME (UTC) → utc");
+assert(DATETIME_SEMANTICS["DATETIME (Local)"] === "local", "DATETIME (Local) → local");
+assert(DATETIME_SEMANTICS["DATETIME (Attached)"] === "attached", "DATETIME (Attached) → attached");
+assert(DATETIME_SEMANTICS["DATETIME"] === "unspecified", "DATETIME → unspecified");
+
+expect("9/28/2023 6:30:00 PM", "utc", "2023-09-28T18:30:00Z");
+expect("9/28/2023 12:00:00 AM", "utc", "2023-09-28T00:00:00Z");
+expect("9/28/2023 6:30:00 PM", "local", "2023-09-28T18:30:00");
+expect("9/28/2023 12:00:00 AM", "local", "2023-09-28T00:00:00");
+expect("9/28/2023 6:30:00 PM", "attached", "2023-09-28T18:30:00");
+
+// Canonical output is a fixed point
+for (const s of ["2023-09-28", "2023-09-28T18:30:00", "2023-09-28T18:30:00Z"]) {
+  assert(norm(s, s.endsWith("Z") ? "utc" : s.length > 10 ? "local" : "unspecified") === s, `${s} re-normalizes to itself`);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// 3. REJECTS
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 3. Rejects ═══");
+
+expect("2/30/2023", "unspecified", null);
+expect("2/29/2024", "unspecified", "2024-02-29");
+expect("13/01/2023", "unspecified", null);
+expect("9/28/2023 13:00:00 PM", "local", null);
+expect("9/28/2023 0:10 AM", "local", null);
+expect("2023-09-28 24:00:00", "local", null);
+expect("Sept 28", "unspecified", null);
+expect("", "unspecified", null);
+
+// ════════════════════════════════════════════════════════════════════════════
+// SUMMARY
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n" + "═".repeat(60));
+console.log(`RESULTS: ${passed} passed, ${failed} failed`);
+if (failures.length > 0) {
+  console.log("\nFailures:");
+  for (const f of failures) {
+    console.log(`  ✗ ${f}`);
+  }
+}
+console.log("═".repeat(60));
+
+process.exit(failed > 0 ? 1 : 0);
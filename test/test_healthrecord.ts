@@ -197,7 +197,8 @@ function walkSchema(obj: unknown, path: string) {
       const arrayFields = new Set([
         "allergies", "problems", "medications", "immunizations", "visits",
         "labResults", "messages", "surgicalHistory", "familyHistory",
-        "diagnoses", "orders", "notes", "vitalSigns", "results",
+        "diagnoses", "orders", "notes", "vitalSigns", "movements", "results", "dispenses", "administrations", "imagingStudies", "studyUids", "preventiveCare",
+        "conversations", "participants", "visitIds", "answers", "timeline",
         "reactions", "reasonsForVisit", "associatedDiagnoses", "race",
         "conditions", "charges", "payments", "claims", "accounts",
         "transactionActions", "eobLineItems", "collectionEvents",
@@ -289,6 +290,72 @@ for (const v of hr.visits) {
   }
 }
 
+// ADT movements run in time order and say what happened
+for (const v of hr.visits) {
+  const times = v.movements.map(m => m.time).filter((t): t is string => t != null);
+  assert(times.every((t, i) => i === 0 || times[i - 1] <= t), `visit ${v.id} movements are in time order`);
+  assert(v.movements.every(m => m.event.length > 0), `visit ${v.id} movements have an event type`);
+}
+
+// Imaging studies stand apart from lab results
+console.log(`  Imaging studies: ${hr.imagingStudies.length}`);
+const imagingOrderIds = new Set(hr.imagingStudies.map(st => st.orderId));
+assert(hr.labResults.every(l => !imagingOrderIds.has(l.orderId)), "no imaging order appears in labResults");
+for (const st of hr.imagingStudies) {
+  assert(typeof st.name === "string" && st.name.length > 0, `imaging study ${st.orderId} has a name`);
+}
+
+// Conversations: each thread's messages are its own and run oldest first
+console.log(`  Conversations: ${hr.conversations.length}`);
+for (const c of hr.conversations) {
+  assert(c.messages.every(m => m.threadId === c.id), `conversation ${c.id} holds only its own messages`);
+  const sent = c.messages.map(m => m.date).filter((t): t is string => t != null);
+  assert(sent.every((t, i) => i === 0 || sent[i - 1] <= t), `conversation ${c.id} messages are in time order`);
+}
+const lasts = hr.conversations.map(c => c.lastMessageDate ?? '');
+assert(lasts.every((t, i) => i === 0 || lasts[i - 1] >= t), "conversations are most recent first");
+
+// Questionnaires: answers in form order, scores only on scored instruments and in range
+console.log(`  Questionnaire responses: ${hr.questionnaireResponses.length}`);
+for (const q of hr.questionnaireResponses) {
+  assert(q.score == null || (q.score >= 0 && q.score <= 27), `questionnaire ${q.formName} score ${q.score} is in range`);
+  assert(q.score != null || q.severity == null, `questionnaire ${q.formName} has no severity without a score`);
+}
+
+// Timeline: one sorted stream whose refs point at entries that exist
+console.log(`  Timeline events: ${hr.timeline.length}`);
+const eventDates = hr.timeline.map(e => e.date);
+assert(eventDates.every((d, i) => i === 0 || eventDates[i - 1] <= d), "timeline events are in date order");
+const refIds: Record<string, Set<string>> = {
+  visits: new Set(hr.visits.map(v => v.id)),
+  medications: new Set(hr.medications.map(m => m.id)),
+  problems: new Set(hr.problems.map(p => p.id)),
+  messages: new Set(hr.messages.map(m => m.id)),
+  labResults: new Set(hr.labResults.map(l => l.orderId)),
+};
+for (const [section, ids] of Object.entries(refIds)) {
+  const refs = hr.timeline.filter(e => e.ref.section === section);
+  assert(refs.every(e => ids.has(e.ref.id)), `all ${refs.length} timeline refs into ${section} resolve`);
+}
+assert(hr.timeline.filter(e => e.kind === "visit").length === hr.visits.filter(v => v.date != null).length,
+  "every dated visit is on the timeline");
+
+// Preventive care: one item per topic, soonest due first
+console.log(`  Preventive care topics: ${hr.preventiveCare.length}`);
+assert(new Set(hr.preventiveCare.map(p => p.topicId)).size === hr.preventiveCare.length,
+  "preventive care lists each topic once");
+const dues = hr.preventiveCare.map(p => p.dueDate).filter((d): d is string => d != null);
+assert(dues.every((d, i) => i === 0 || dues[i - 1] <= d), "preventive care items are in due-date order");
+assert(hr.preventiveCare.every(p => p.topic.length > 0), "every preventive care item names its topic");
+
+// Dispenses and administrations run oldest first
+for (const m of hr.medications) {
+  const fills = m.dispenses.map(d => d.date).filter((t): t is string => t != null);
+  assert(fills.every((t, i) => i === 0 || fills[i - 1] <= t), `medication ${m.id} dispenses are in date order`);
+  const given = m.administrations.map(a => a.time).filter((t): t is string => t != null);
+  assert(given.every((t, i) => i === 0 || given[i - 1] <= t), `medication ${m.id} administrations are in time order`);
+}
+
 // Lab results have component names
 const labsWithComponent = hr.labResults.filter(l => l.component.length > 0);
 assert(labsWithComponent.length > 0,
@@ -0,0 +1,166 @@
+/**
+ * test_healthrecord_fixtures.ts — HealthRecord projection tests on hand-built records
+ * (no database or sample data needed)
+ *
+ * 1. Medications: dispenses and administrations from their source rows
+ * 2. Preventive care: status, due date and last completion per topic
+ * 3. Conversations: message direction, subject and participants
+ * 4. Questionnaires: answers from the latest contact, scored instruments
+ * 5. Service benefits: typed coverage benefit rows
+ *
+ * Usage: bun run test/test_healthrecord_fixtures.ts
+ */
+import { loadPatientRecord, type EpicRow } from "../src/PatientRecord";
+import { projectHealthRecord, type HealthRecord } from "../src/HealthRecord";
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, msg: string) {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(msg);
+    console.log(`  FAIL: ${msg}`);
+  }
+}
+
+/** Project a one-patient record holding just the given sections */
+function project(sections: EpicRow): HealthRecord {
+  return projectHealthRecord(loadPatientRecord({ PAT_ID: "Z1", PAT_NAME: "TEST,PATIENT", ...sections }));
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// 1. MEDICATIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 1. Medications ═══");
+
+// Dispense and administration fields map from their source rows
+const [amox] = project({
+  medications: [{
+    ORDER_MED_ID: "OM1", DESCRIPTION: "AMOXICILLIN 500 MG CAPSULE",
+    dispenses: [
+      {
+        ORDER_MED_ID: "OM1", LINE: 2, DOCUMENT_ID: "D2", DISPENSE_DTTM: "4/10/2023 9:15:00 AM",
+        DISPENSE_QTY: 30, DISPENSE_QTY_UNIT_C_NAME: "capsule", PHARMACY_ID_PHARMACY_NAME: "MAIN ST PHARMACY",
+        sig: [{ DOCUMENT_ID: "D2", LINE: 1, SIG_TEXT: "Take 1 capsule by mouth" }, { DOCUMENT_ID: "D2", LINE: 2, SIG_TEXT: "three times daily" }],
+      },
+      { ORDER_MED_ID: "OM1", LINE: 1, DOCUMENT_ID: "D1", DISPENSE_DTTM: "2023-03-01" },
+    ],
+    administrations: [{
+      ORDER_MED_ID: "OM1", LINE: 1, ADMIN_DTTM: "3/2/2023 8:05:00 AM", ADMIN_ACTION_C_NAME: "Given",
+      ADMIN_DOSE: "500", ADMIN_DOSE_UNIT_C_NAME: "mg", ADMIN_ROUTE_C_NAME: "Oral", ADMIN_USER_ID_NAME: "NURSE, JANE",
+    }],
+  }],
+}).medications;
+const fill = amox.dispenses[1];
+assert(amox.dispenses[0].date === "2023-03-01" && fill.date === "2023-04-10", "dispense dates are ISO, oldest first");
+assert(fill.quantity === "30 capsule", `dispense quantity joins amount and unit, got ${fill.quantity}`);
+assert(fill.pharmacy === "MAIN ST PHARMACY", "dispense carries its pharmacy");
+assert(fill.sig === "Take 1 capsule by mouth\nthree times daily", "dispense sig joins its MED_DISPENSE_SIG lines");
+const dose = amox.administrations[0];
+assert(dose.time === "2023-03-02T08:05:00", `administration time is ISO, got ${dose.time}`);
+assert(dose.dose === "500 mg" && dose.route === "Oral", "administration carries dose and route");
+assert(dose.givenBy === "NURSE, JANE" && dose.action === "Given", "administration carries who gave it and the action");
+
+// ════════════════════════════════════════════════════════════════════════════
+// 2. PREVENTIVE CARE
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 2. Preventive care ═══");
+
+// Preventive care: status and due date from PATIENT_HMT_STATUS, last completion from HM_HISTORY
+const care = project({
+  health_maintenance: {
+    topic_status: [{ PAT_ID: "Z1", LINE: 1, QUALIFIED_HMT_ID: 7, HMT_DUE_STATUS_C_NAME: "Overdue", IDEAL_RETURN_DT: "1/15/2024 12:00:00 AM", _topic_name: "Colonoscopy" }],
+    history: [
+      { PAT_ID: "Z1", LINE: 2, HM_TOPIC_ID: 7, HM_HX_DATE: "3/1/2014 12:00:00 AM", HM_TYPE_C_NAME: "Done" },
+      { PAT_ID: "Z1", LINE: 1, HM_TOPIC_ID: 7, HM_HX_DATE: "2009-02-10", HM_TYPE_C_NAME: "Done Elsewhere" },
+    ],
+  },
+}).preventiveCare;
+assert(care.length === 1 && care[0].topic === "Colonoscopy", "preventive care topic named from CLARITY_HM_TOPIC");
+assert(care[0].status === "Overdue" && care[0].dueDate === "2024-01-15", "preventive care status and due date");
+assert(care[0].lastCompleted === "2014-03-01" && care[0].satisfiedBy === "Done",
+  `last completion is the latest HM_HISTORY row, got ${care[0].lastCompleted}`);
+
+// ════════════════════════════════════════════════════════════════════════════
+// 3. CONVERSATIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 3. Conversations ═══");
+
+// Conversations: direction from which end has a clinician, subject from the first message
+const [thread] = project({
+  messages: [
+    { MESSAGE_ID: "M1", CREATED_TIME: "2023-05-01T09:00:00", SUBJECT: "Rash", TO_USER_ID_NAME: "SMITH, ANN", _thread_id: "T1" },
+    { MESSAGE_ID: "M2", CREATED_TIME: "2023-05-01T13:30:00", FROM_USER_ID_NAME: "JONES, RN", _thread_id: "T1" },
+  ],
+  conversation_threads: [{
+    THREAD_ID: "T1",
+    messages: [{ THREAD_ID: "T1", MESSAGE_ID: "M2" }, { THREAD_ID: "T1", MESSAGE_ID: "M1" }],
+    users: [{ THREAD_ID: "T1", LINE: 1, USER_ID_NAME: "SMITH, ANN" }],
+  }],
+}).conversations;
+assert(thread.messages.map(m => m.direction).join() === "fromPatient,toPatient", "message direction from sender and recipient");
+assert(thread.subject === "Rash", "conversation subject from its first message");
+assert(thread.participants.join("|") === "SMITH, ANN|JONES, RN", `participants are thread users then correspondents: ${thread.participants}`);
+
+// ════════════════════════════════════════════════════════════════════════════
+// 4. QUESTIONNAIRES
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 4. Questionnaires ═══");
+
+// Questionnaires: answers from the latest CL_QANSWER_OVTM contact, PHQ-2 scored from frequency items
+const [phq] = project({
+  questionnaire_answers: [{
+    QUESR_ANS_ID: "A1", QUESR_ANS_FORM_ID: 42, _form_name: "PHQ-2", QUESR_ANS_DATETIME: "6/1/2023 10:15:00 AM",
+    answers: [
+      { ANSWER_ID: "A1", CONTACT_DATE_REAL: 66000, LINE: 1, QUEST_ID: 1, QUEST_ANSWER: "Not at all", _question: "Little interest" },
+      { ANSWER_ID: "A1", CONTACT_DATE_REAL: 66001, LINE: 2, QUEST_ID: 2, QUEST_ANSWER: "Nearly every day", _question: "Feeling down" },
+      { ANSWER_ID: "A1", CONTACT_DATE_REAL: 66001, LINE: 1, QUEST_ID: 1, QUEST_ANSWER: "Several days", _question: "Little interest" },
+    ],
+  }],
+}).questionnaireResponses;
+assert(phq.answers.map(a => a.answer).join("|") === "Several days|Nearly every day", "answers come from the latest contact in line order");
+assert(phq.answers[0].question === "Little interest" && phq.answers[0].value === 1, "answer carries its question text and item points");
+assert(phq.score === 4 && phq.severity === "Positive", `PHQ-2 total from its items, got ${phq.score} ${phq.severity}`);
+
+// ════════════════════════════════════════════════════════════════════════════
+// 5. SERVICE BENEFITS
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 5. Service benefits ═══");
+
+// Service benefits: read from the typed CVG_SVC_BENEFITS rows on each coverage
+const [benefit] = project({
+  coverage: [{
+    COVERAGE_ID: "C1",
+    service_benefits: [{ COVERAGE_ID: "C1", LINE: 1, CVG_SVC_TYPE_ID_SERVICE_TYPE_NAME: "Office Visit",
+      COPAY_AMOUNT: 25, DEDUCT_REMAIN_AMT: 300, OUT_OF_PCKET_MET_YN: "N", IN_NETWORK_YN: "Y", REMAINING_VISITS: 12 }],
+  }],
+}).billing.serviceBenefits;
+assert(benefit.coverageId === "C1" && benefit.serviceType === "Office Visit", "service benefit names its coverage and type");
+assert(benefit.copayAmount === 25 && benefit.deductibleRemaining === 300 && benefit.remainingVisits === 12,
+  "service benefit carries copay, remaining deductible and visits");
+assert(benefit.inNetwork === true && benefit.outOfPocketMet === false, "service benefit Y/N flags become booleans");
+
+// ════════════════════════════════════════════════════════════════════════════
+// SUMMARY
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n" + "═".repeat(60));
+console.log(`RESULTS: ${passed} passed, ${failed} failed`);
+if (failures.length > 0) {
+  console.log("\nFailures:");
+  for (const f of failures) {
+    console.log(`  ✗ ${f}`);
+  }
+}
+console.log("═".repeat(60));
+
+process.exit(failed > 0 ? 1 : 0);
@@ -12,6 +12,12 @@
  */
 
 import { Database } from "bun:sqlite";
+import {
+  projectPatientRecord, listPatientIds, coverageReport, type RowSource, type CoverageLog,
+} from "../src/project";
+import { projectedTables } from "../src/projection_spec";
+import { loadPatientRecord, Medication, type EpicRow } from "../src/PatientRecord";
+import { projectHealthRecord } from "../src/HealthRecord";
 
 const DB_PATH = process.argv.includes("--db")
   ? process.argv[process.argv.indexOf("--db") + 1]
@@ -72,7 +78,7 @@ assert(totalRows > 5000, `Expected 5000+ total rows, got ${totalRows}`);
 console.log("\n═══ 2. Split table merging ═══");
 
 import splitConfig from "../src/split_config.json";
-const splits = splitConfig as Record<string, { base_pk: string; members: Array<{ table: string; join_col: string }> }>;
+const splits = splitConfig as Record<string, { base_pk: string; members: Array<{ table: string; join_col: string; base_col?: string }> }>;
 
 for (const [base, config] of Object.entries(splits)) {
   if (!tableExists(base)) continue;
@@ -91,14 +97,9 @@ for (const [base, config] of Object.entries(splits)) {
       `${member.table} missing join col ${member.join_col}`);
 
     // Verify values actually match
-    // Get the base join column (might differ from base_pk for PAT_ENC etc)
-    let baseJoinCol = config.base_pk;
-    if (base === "PAT_ENC" && baseCols.includes("PAT_ENC_CSN_ID")) {
-      baseJoinCol = "PAT_ENC_CSN_ID";
-    }
-    if (member.join_col === "PAT_ENC_CSN" && baseCols.includes("PAT_ENC_CSN_ID")) {
-      baseJoinCol = "PAT_ENC_CSN_ID";
-    }
+    // The base join column differs from base_pk where base_col says so (PAT_ENC)
+    let baseJoinCol = member.base_col ?? config.base_pk;
+    if (!baseCols.includes(baseJoinCol)) baseJoinCol = config.base_pk;
 
     if (baseCols.includes(baseJoinCol)) {
       const matchCount = q(`
@@ -584,6 +585,275 @@ console.log(`  Spec tables with data: ${specTablesWithData.length}`);
 assert(specTablesWithData.length >= 50,
   `at least 50 spec tables have data (got ${specTablesWithData.length})`);
 
+// ════════════════════════════════════════════════════════════════════════════
+// 15. IN-PROCESS PROJECTION
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 15. In-process projection ═══");
+
+const patIds = listPatientIds(db);
+assert(patIds.includes(patId as string), `listPatientIds includes ${patId}`);
+
+const doc = projectPatientRecord(db, { patId: patId as string });
+assert(doc.PAT_ID === patId, `projected PAT_ID ${doc.PAT_ID} matches ${patId}`);
+const docEncounters = (doc.encounters as EpicRow[]) ?? [];
+console.log(`  Projected encounters: ${docEncounters.length}`);
+assert(docEncounters.length === encounters.length,
+  `projected ${docEncounters.length} encounters, PAT_ENC has ${encounters.length} for patient`);
+assert(docEncounters.every(e => encounters.some(pe => pe.PAT_ENC_CSN_ID === e.PAT_ENC_CSN_ID)),
+  "every projected encounter belongs to the patient");
+
+// Nested ChildSpecs: relationship details hang off their relationship_list row
+const rels = (doc.relationship_list as EpicRow[]) ?? [];
+const relPhones = rels.flatMap(r => ((r.phone_numbers as EpicRow[]) ?? []).map(p => [r, p] as const));
+assert(relPhones.every(([r, p]) => p.PAT_RELATIONSHIP_ID === r.PAT_RELATIONSHIP_ID),
+  `${relPhones.length} relationship phone numbers nest under their own relationship`);
+if (tableExists("PAT_RELATIONSHIP_LIST") && tableExists("PAT_REL_PHONE_NUM")) {
+  const phoneRows = q(`SELECT p.* FROM PAT_REL_PHONE_NUM p
+    JOIN PAT_RELATIONSHIP_LIST r ON r.PAT_RELATIONSHIP_ID = p.PAT_RELATIONSHIP_ID
+    WHERE r.PAT_ID = ?`, [patId]);
+  assert(relPhones.length === phoneRows.length, `relationships hold all ${phoneRows.length} PAT_REL_PHONE_NUM rows`);
+}
+
+// Composite FK: flowsheet edits match their measurement on FSD_ID and LINE
+const measEdits = docEncounters
+  .flatMap(e => (e.flowsheet_measurements as EpicRow[]) ?? [])
+  .flatMap(m => ((m.edits as EpicRow[]) ?? []).map(ed => [m, ed] as const));
+console.log(`  Flowsheet measurement edits: ${measEdits.length}`);
+assert(measEdits.every(([m, ed]) => ed.FSD_ID === m.FSD_ID && ed.EDITED_LINE === m.LINE),
+  "every flowsheet edit matches its measurement's FSD_ID + LINE");
+if (["PAT_ENC_HSP", "IP_FLWSHT_REC", "IP_FLWSHT_MEAS", "IP_FLWSHT_EDITED"].every(tableExists)) {
+  const editRows = q(`SELECT ed.* FROM IP_FLWSHT_EDITED ed
+    JOIN IP_FLWSHT_MEAS m ON m.FSD_ID = ed.FSD_ID AND m.LINE = ed.EDITED_LINE
+    JOIN IP_FLWSHT_REC rec ON rec.FSD_ID = m.FSD_ID
+    JOIN PAT_ENC_HSP h ON h.INPATIENT_DATA_ID = rec.INPATIENT_DATA_ID
+    WHERE h.PAT_ENC_CSN_ID IN (SELECT PAT_ENC_CSN_ID FROM PAT_ENC WHERE PAT_ID = ?)`, [patId]);
+  assert(measEdits.length === editRows.length, `flowsheet measurements hold all ${editRows.length} IP_FLWSHT_EDITED rows`);
+}
+
+const record = loadPatientRecord(JSON.parse(JSON.stringify(doc)));
+assert(record.encounters.length === docEncounters.length, "hydrated record keeps every encounter");
+
+// Dispense and administration rows hang off the order they belong to, and
+// each dispense carries its own label sig lines
+const docMeds = (doc.medications as EpicRow[]) ?? [];
+const dispenses = docMeds.flatMap(m => ((m.dispenses as EpicRow[]) ?? []).map(d => [m, d] as const));
+const administrations = docMeds.flatMap(m => ((m.administrations as EpicRow[]) ?? []).map(a => [m, a] as const));
+console.log(`  Medication dispenses: ${dispenses.length}, administrations: ${administrations.length}`);
+assert([...dispenses, ...administrations].every(([m, e]) => e.ORDER_MED_ID === m.ORDER_MED_ID),
+  "every dispense/administration belongs to its medication order");
+assert(dispenses.every(([, d]) => ((d.sig as EpicRow[]) ?? []).every(l => l.DOCUMENT_ID === d.DOCUMENT_ID)),
+  "every MED_DISPENSE_SIG line belongs to its dispense");
+if (tableExists("ORDER_RXVER_NOADSN")) {
+  const rxRows = q(`SELECT * FROM ORDER_RXVER_NOADSN WHERE ORDER_MED_ID IN (SELECT ORDER_MED_ID FROM ORDER_MED WHERE PAT_ID = ?)`, [patId]);
+  assert(dispenses.length === rxRows.length, `medications hold all ${rxRows.length} ORDER_RXVER_NOADSN rows`);
+  if (tableExists("MED_DISPENSE_SIG")) {
+    const sigRows = q(`SELECT s.* FROM MED_DISPENSE_SIG s
+      JOIN ORDER_RXVER_NOADSN rx ON rx.DOCUMENT_ID = s.DOCUMENT_ID
+      WHERE rx.ORDER_MED_ID IN (SELECT ORDER_MED_ID FROM ORDER_MED WHERE PAT_ID = ?)`, [patId]);
+    const sigLines = dispenses.reduce((n, [, d]) => n + ((d.sig as EpicRow[]) ?? []).length, 0);
+    assert(sigLines === sigRows.length, `dispenses hold all ${sigRows.length} MED_DISPENSE_SIG rows`);
+  }
+}
+if (tableExists("ORD_MED_ADMININSTR")) {
+  const marRows = q(`SELECT * FROM ORD_MED_ADMININSTR WHERE ORDER_MED_ID IN (SELECT ORDER_MED_ID FROM ORDER_MED WHERE PAT_ID = ?)`, [patId]);
+  assert(administrations.length === marRows.length, `medications hold all ${marRows.length} ORD_MED_ADMININSTR rows`);
+}
+
+// ADT events: every CLARITY_ADT row for the patient's encounters, with unit names resolved
+if (tableExists("CLARITY_ADT")) {
+  const adtRows = q(`SELECT * FROM CLARITY_ADT WHERE PAT_ENC_CSN_ID IN (SELECT PAT_ENC_CSN_ID FROM PAT_ENC WHERE PAT_ID = ?)`, [patId]);
+  const adtEvents = record.encounters.flatMap(e => e.adtEvents);
+  console.log(`  ADT events: ${adtEvents.length}`);
+  assert(adtEvents.length === adtRows.length, `Encounter.adtEvents holds all ${adtRows.length} CLARITY_ADT rows`);
+  if (tableExists("CLARITY_DEP")) {
+    const depIds = new Set(q(`SELECT DEPARTMENT_ID FROM CLARITY_DEP`).map(r => r.DEPARTMENT_ID));
+    assert(adtEvents.filter(e => depIds.has(e.DEPARTMENT_ID)).every(e => e._department != null),
+      "ADT events in a known department have a unit name");
+  }
+}
+
+// Imaging orders: exactly the patient's orders with a modality, accession
+// number, reading or RIS sign-off, and their radiologists resolve to names
+const imagingOrders = record.visits().flatMap(v => v.orders).filter(o => o.isImaging());
+console.log(`  Imaging orders: ${imagingOrders.length}`);
+if (tableExists("ORDER_PROC")) {
+  const patOrders = `SELECT o.ORDER_PROC_ID FROM ORDER_PROC o
+    JOIN PAT_ENC e ON e.PAT_ENC_CSN_ID = o.PAT_ENC_CSN_ID WHERE e.PAT_ID = ?`;
+  const imagingIds = new Set<string>();
+  for (const [table, col] of [["ORDER_MODALITY_TYPE", "ORDER_ID"], ["ORDER_RAD_ACC_NUM", "ORDER_PROC_ID"],
+                              ["ORDER_RAD_READING", "ORDER_PROC_ID"], ["RIS_SGND_INFO", "ORDER_PROC_ID"]]) {
+    if (!tableExists(table)) continue;
+    for (const r of q(`SELECT DISTINCT ${col} AS id FROM ${table} WHERE ${col} IN (${patOrders})`, [patId])) {
+      imagingIds.add(String(r.id));
+    }
+  }
+  const foundIds = new Set(imagingOrders.map(o => String(o.ORDER_PROC_ID)));
+  assert(foundIds.size === imagingIds.size && [...imagingIds].every(id => foundIds.has(id)),
+    `imaging orders (${foundIds.size}) are the ${imagingIds.size} orders with imaging rows`);
+}
+if (tableExists("CLARITY_SER")) {
+  const provIds = new Set(q(`SELECT PROV_ID FROM CLARITY_SER`).map(r => r.PROV_ID));
+  assert(imagingOrders.flatMap(o => o.radReadings).filter(rd => provIds.has(rd.PROV_ID)).every(rd => rd._radiologist != null),
+    "reading radiologists in CLARITY_SER have a name");
+  assert(imagingOrders.flatMap(o => o.finalizePhysician).filter(f => provIds.has(f.FINALIZE_PHYS_ID)).every(f => f._radiologist != null),
+    "finalizing radiologists in CLARITY_SER have a name");
+}
+
+// Conversation threads hydrate, and every linked message resolves to one on the record
+if (tableExists("MYC_CONVO")) {
+  const threadCount = q(`SELECT COUNT(*) AS n FROM MYC_CONVO WHERE PAT_ID = ?`, [patId])[0].n;
+  assert(record.conversations.length === threadCount, `record has all ${threadCount} MYC_CONVO threads`);
+  for (const c of record.conversations) {
+    assert(c.allMessages(record).every(m => String(m.threadId) === String(c.THREAD_ID)),
+      `thread ${c.THREAD_ID} messages point back at it`);
+  }
+}
+
+// Questionnaire answers hang off the submission whose answer record they belong to
+const submissions = [
+  ...((doc.questionnaire_answers as EpicRow[]) ?? []),
+  ...((doc.messages as EpicRow[]) ?? []).flatMap(m => (m.questionnaire_answers as EpicRow[]) ?? []),
+];
+const qAnswers = submissions.flatMap(s => ((s.answers as EpicRow[]) ?? []).map(a => [s, a] as const));
+console.log(`  Questionnaire answers: ${qAnswers.length}`);
+assert(qAnswers.every(([s, a]) => a.ANSWER_ID === s.QUESR_ANS_ID),
+  "every questionnaire answer belongs to its submission's answer record");
+if (tableExists("CL_QANSWER_OVTM")) {
+  // One QUESR_ANS_ID row per submission, whether charted or sent in a message
+  const patSubmissions = [
+    tableExists("QUESR_LST_ANS_INFO") ? `SELECT QUESR_ANS_ID FROM QUESR_LST_ANS_INFO WHERE PAT_ID = ?` : null,
+    tableExists("MYC_MESG_QUESR_ANS") && tableExists("MYC_MESG")
+      ? `SELECT QUESR_ANS_ID FROM MYC_MESG_QUESR_ANS WHERE MESSAGE_ID IN (SELECT MESSAGE_ID FROM MYC_MESG WHERE PAT_ID = ?)`
+      : null,
+  ].filter((sql): sql is string => sql != null);
+  if (patSubmissions.length > 0) {
+    const answerRows = q(`SELECT a.* FROM CL_QANSWER_OVTM a
+      JOIN (${patSubmissions.join(" UNION ALL ")}) s ON s.QUESR_ANS_ID = a.ANSWER_ID`,
+      patSubmissions.map(() => patId));
+    assert(qAnswers.length === answerRows.length, `submissions hold all ${answerRows.length} CL_QANSWER_OVTM rows`);
+  }
+}
+
+// Health maintenance: typed on the record, topic names resolved from CLARITY_HM_TOPIC
+const hm = record.healthMaintenance;
+const hmDoc = (doc.health_maintenance as EpicRow) ?? {};
+assert(hm.topicStatus.length === ((hmDoc.topic_status as EpicRow[]) ?? []).length,
+  `HealthMaintenance keeps all ${hm.topicStatus.length} topic status rows`);
+assert(!("health_maintenance" in record.patient), "health_maintenance is not left in patient demographics");
+if (tableExists("CLARITY_HM_TOPIC")) {
+  const topicIds = new Set(q(`SELECT HM_TOPIC_ID FROM CLARITY_HM_TOPIC`).map(r => String(r.HM_TOPIC_ID)));
+  assert(hm.topicIds().filter(id => topicIds.has(String(id))).every(id => hm.topicName(id) != null),
+    "health maintenance topics in CLARITY_HM_TOPIC have a name");
+}
+if (tableExists("PATIENT_HMT_STATUS")) {
+  const qualified = q(`SELECT DISTINCT QUALIFIED_HMT_ID FROM PATIENT_HMT_STATUS WHERE PAT_ID = ? AND QUALIFIED_HMT_ID IS NOT NULL`, [patId]);
+  assert(qualified.every(r => hm.statusFor(r.QUALIFIED_HMT_ID as string) != null),
+    `every one of ${qualified.length} qualified topics has a status row`);
+  assert(qualified.every(r => hm.topicIds().includes(String(r.QUALIFIED_HMT_ID))), "every qualified topic is listed");
+}
+
+// Order chain: every child order is indexed, and its results reach the parent
+if (tableExists("ORDER_PARENT_INFO")) {
+  const chainLinks = record.orderParentLinks.filter(l => String(l.ORDER_ID) !== String(l.PARENT_ORDER_ID));
+  console.log(`  Order parent links: ${chainLinks.length}`);
+  for (const link of chainLinks) {
+    const child = record.orderByID(link.ORDER_ID);
+    const parent = record.orderByID(link.PARENT_ORDER_ID);
+    assert(child !== undefined, `child order ${link.ORDER_ID} is indexed`);
+    if (!child || !parent) continue;
+    assert(child.parent(record) === parent, `order ${link.ORDER_ID} parent() is ${link.PARENT_ORDER_ID}`);
+    assert(child.rootOrder(record).parent(record) === undefined, `order ${link.ORDER_ID} rootOrder() has no parent`);
+    assert(child.results.every(res => parent.allResults(record).includes(res)),
+      `results on child ${link.ORDER_ID} reach parent ${link.PARENT_ORDER_ID}`);
+  }
+}
+
+// Typed entities: indexes find every row, and encounter accessors stay on the record
+assert(record.medications.every(m => m instanceof Medication && record.medicationByID(m.ORDER_MED_ID) === m),
+  `all ${record.medications.length} medications are indexed by ORDER_MED_ID`);
+assert(record.medications.filter(m => m.PAT_ENC_CSN_ID != null && m.encounter(record))
+  .every(m => m.encounter(record)!.PAT_ENC_CSN_ID === m.PAT_ENC_CSN_ID),
+  "medication encounter() resolves to its ordering encounter");
+assert(record.coverage.every(c => record.coverageByID(c.COVERAGE_ID) === c),
+  `all ${record.coverage.length} coverages are indexed by COVERAGE_ID`);
+assert(record.coverage.every(c => c.members.length === 0 || c.subscriber != null),
+  "every coverage with members has a subscriber");
+assert(record.referrals.every(r => record.referralByID(r.REFERRAL_ID) === r),
+  `all ${record.referrals.length} referrals are indexed by REFERRAL_ID`);
+assert(record.episodes.every(e => e.encounters(record).length <= e.csnLinks.length),
+  "episode encounters come from its CSN links");
+
+// ════════════════════════════════════════════════════════════════════════════
+// 16. PROVENANCE
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 16. Provenance ═══");
+
+assert(!("_src" in doc), "rows carry no _src unless provenance is requested");
+
+const sourcedDoc = projectPatientRecord(db, { patId: patId as string, provenance: true });
+const patSrc = sourcedDoc._src as RowSource;
+assert(patSrc?.table === "PATIENT" && patSrc.pk?.PAT_ID === patId,
+  `patient _src points at PATIENT ${patId}: ${JSON.stringify(patSrc)}`);
+const splitMembers = new Set(splitConfig.PATIENT?.members.map(m => m.table) ?? []);
+assert(Object.keys(patSrc?.splits ?? {}).every(t => splitMembers.has(t) || t === "PATIENT_MYC"),
+  `patient _src.splits only names PATIENT split members: ${Object.keys(patSrc?.splits ?? {}).join(", ")}`);
+
+const sourcedEncounters = (sourcedDoc.encounters as EpicRow[]) ?? [];
+assert(sourcedEncounters.every(e => (e._src as RowSource)?.table === "PAT_ENC"
+  && (e._src as RowSource).pk?.PAT_ENC_CSN_ID === e.PAT_ENC_CSN_ID),
+  "every encounter _src names its PAT_ENC row");
+const sourcedDx = sourcedEncounters.flatMap(e => (e.diagnoses as EpicRow[]) ?? []);
+assert(sourcedDx.every(d => (d._src as RowSource)?.table === "PAT_ENC_DX"), "encounter diagnoses come from PAT_ENC_DX");
+const dxNamed = sourcedDx.filter(d => d._dx_name != null);
+assert(dxNamed.every(d => (d._src as RowSource).lookups?._dx_name?.table === "CLARITY_EDG"),
+  `${dxNamed.length} diagnosis names trace back to CLARITY_EDG`);
+const sourcedAllergies = (sourcedDoc.allergies as EpicRow[]) ?? [];
+if (tableExists("PAT_ALLERGIES")) {
+  assert(sourcedAllergies.every(a => (a._src as RowSource)?.via === "PAT_ALLERGIES"),
+    "allergies record the PAT_ALLERGIES bridge");
+}
+
+const sourcedHr = projectHealthRecord(loadPatientRecord(JSON.parse(JSON.stringify(sourcedDoc))));
+assert((sourcedHr.demographics._epic._src as RowSource)?.table === "PATIENT",
+  "HealthRecord _epic keeps _src");
+
+// ════════════════════════════════════════════════════════════════════════════
+// 17. DATA REACHED
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 17. Data reached ═══");
+
+const reachLog: CoverageLog = new Map();
+projectPatientRecord(db, { patId: patId as string, coverage: reachLog });
+const reachReport = coverageReport(db, reachLog);
+const { totals } = reachReport;
+console.log(`  Tables ${totals.tables.reached}/${totals.tables.populated}, rows ${totals.rows.reached}/${totals.rows.populated}, ` +
+  `columns ${totals.columns.reached}/${totals.columns.populated}`);
+
+assert(reachReport.tables.PATIENT?.rowsReached === 1, "exactly one PATIENT row reached");
+assert(reachReport.tables.PAT_ENC?.rowsReached === encounters.length,
+  `PAT_ENC rows reached (${reachReport.tables.PAT_ENC?.rowsReached}) match the patient's encounters (${encounters.length})`);
+const docRecons = ((doc.billing as EpicRow)?.reconciliations as EpicRow[]) ?? [];
+assert((reachReport.tables.RECONCILE_CLM?.rowsReached ?? 0) === docRecons.length,
+  `RECONCILE_CLM rows reached (${reachReport.tables.RECONCILE_CLM?.rowsReached ?? 0}) match the reconciliations projected (${docRecons.length})`);
+for (const [table, t] of Object.entries(reachReport.tables)) {
+  const tableCols = new Set(cols(table));
+  assert(t.rowsReached <= t.rows, `${table}: reached ${t.rowsReached} of ${t.rows} rows`);
+  assert(t.columnsReached.every(c => tableCols.has(c)), `${table}: reached columns are real columns`);
+}
+assert(reachReport.uncovered.every(u => reachReport.tables[u.table].rowsReached === 0 && u.rows > 0),
+  "uncovered lists only populated tables with nothing reached");
+assert(reachReport.uncovered.every((u, i, a) => i === 0 || a[i - 1].rows >= u.rows), "uncovered is sorted by row count");
+assert(totals.tables.reached + reachReport.uncovered.length === totals.tables.populated,
+  "reached + uncovered = populated tables");
+// Everything reached is something the registry says it projects
+const projectedSet = projectedTables();
+const unregistered = Object.entries(reachReport.tables)
+  .filter(([t, c]) => c.rowsReached > 0 && !projectedSet.has(t));
+assert(unregistered.length === 0, `reached tables missing from projectedTables(): ${unregistered.map(([t]) => t).join(", ")}`);
+
 // ════════════════════════════════════════════════════════════════════════════
 // SUMMARY
 // ════════════════════════════════════════════════════════════════════════════
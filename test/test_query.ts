@@ -0,0 +1,257 @@
+/**
+ * test_query.ts — PatientRecord query API tests (no database or sample data needed)
+ *
+ * 1. find(): type, name, component, encounter and date filters
+ * 2. between(): everything dated in a window, in date order
+ * 3. search(): note text, message bodies, diagnosis names
+ * 4. timeline(): one dated stream with back-references to its entities
+ * 5. asOf(): problems, medications, allergies and balance as of a past day
+ *
+ * Usage: bun run test/test_query.ts
+ */
+import { loadPatientRecord, OrderResult, Note, Message, Problem } from "../src/PatientRecord";
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, msg: string) {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(msg);
+    console.log(`  FAIL: ${msg}`);
+  }
+}
+
+const record = loadPatientRecord({
+  PAT_ID: "Z1",
+  PAT_NAME: "TEST,PATIENT",
+  encounters: [
+    {
+      PAT_ENC_CSN_ID: 1, CONTACT_DATE: "2020-06-01",
+      diagnoses: [{ DX_ID: 10, _dx_name: "Type 2 diabetes mellitus" }],
+      orders: [{
+        ORDER_PROC_ID: 100, DESCRIPTION: "HEMOGLOBIN A1C", ORDER_INST: "2020-06-01T09:00:00",
+        results: [{ ORDER_PROC_ID: 100, LINE: 1, COMPONENT_ID_NAME: "HEMOGLOBIN A1C", ORD_VALUE: "7.9", RESULT_DATE: "2020-06-02" }],
+      }],
+      notes: [{ NOTE_ID: "N1", PAT_ENC_CSN_ID: 1, text: [{ NOTE_TEXT: "Discussed metformin titration." }] }],
+    },
+    {
+      PAT_ENC_CSN_ID: 2, CONTACT_DATE: "3/15/2022 12:00:00 AM",
+      orders: [{
+        ORDER_PROC_ID: 200, DESCRIPTION: "LIPID PANEL", ORDER_INST: "2022-03-15T08:00:00",
+        results: [
+          { ORDER_PROC_ID: 200, LINE: 1, COMPONENT_ID_NAME: "LDL", ORD_VALUE: "84", RESULT_DATE: "2022-03-16" },
+          { ORDER_PROC_ID: 200, LINE: 2, COMPONENT_ID_NAME: "HDL", ORD_VALUE: "62", RESULT_DATE: "2022-03-16" },
+        ],
+      }, {
+        ORDER_PROC_ID: 201, DESCRIPTION: "HEMOGLOBIN A1C", ORDER_INST: "2022-03-15T08:00:00",
+        results: [{ ORDER_PROC_ID: 201, LINE: 1, COMPONENT_ID_NAME: "Hemoglobin A1c", ORD_VALUE: "6.8", RESULT_DATE: "2022-03-16" }],
+      }],
+    },
+  ],
+  messages: [
+    { MESSAGE_ID: "M1", CREATED_TIME: "2022-03-20T10:00:00", text: [{ MSG_TXT: "Can I lower my METFORMIN dose?" }] },
+  ],
+  problems: [
+    { PROBLEM_LIST_ID: "P1", _dx_name: "Hyperlipidemia", DATE_OF_ENTRY: "2019-01-10", RESOLVED_DATE: "2023-05-01" },
+    {
+      PROBLEM_LIST_ID: "P2", _dx_name: "Low back pain", NOTED_DATE: "2020-02-01", PROBLEM_STATUS_C_NAME: "Deleted",
+      history: [
+        { PROBLEM_LIST_ID: "P2", LINE: 1, HX_DATE_OF_ENTRY: "2/1/2020 12:00:00 AM", HX_STATUS_C_NAME: "Active" },
+        { PROBLEM_LIST_ID: "P2", LINE: 2, HX_DATE_OF_ENTRY: "2021-07-01", HX_STATUS_C_NAME: "Deleted" },
+      ],
+    },
+  ],
+  allergies: [
+    { ALLERGY_ID: "A1", ALLERGEN_ID_ALLERGEN_NAME: "PENICILLIN", DATE_NOTED: "2021-01-05", ALRGY_STATUS_C_NAME: "Active" },
+  ],
+  social_history: [
+    { PAT_ENC_CSN_ID: 1, CONTACT_DATE: "6/1/2020 12:00:00 AM", TOBACCO_USER_C_NAME: "Yes" },
+    { PAT_ENC_CSN_ID: 2, CONTACT_DATE: "3/15/2022 12:00:00 AM", TOBACCO_USER_C_NAME: "Quit" },
+  ],
+  medications: [{ ORDER_MED_ID: "OM1", DESCRIPTION: "METFORMIN 500 MG", START_DATE: "2020-06-01", END_DATE: "2022-03-20", PAT_ENC_CSN_ID: 1 }],
+  billing: {
+    transactions: [
+      { TX_ID: "T0", TX_TYPE_C_NAME: "Charge", AMOUNT: 150, POST_DATE: "2022-03-15" },
+      { TX_ID: "T1", TX_TYPE_C_NAME: "Payment", AMOUNT: -20, POST_DATE: "2022-04-02" },
+    ],
+  },
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// 1. FIND
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 1. find() ═══");
+
+const a1c = record.find({ type: "labResult", component: /A1C/i });
+assert(a1c.length === 2, `two A1C results, got ${a1c.length}`);
+assert(a1c.every(h => h.entity instanceof OrderResult), "lab result hits carry OrderResult entities");
+assert(a1c.map(h => h.date).join() === "2020-06-02,2022-03-16", `A1C results in date order: ${a1c.map(h => h.date)}`);
+
+const recentA1c = record.find({ type: "labResult", component: /A1C/i, from: "2021-01-01" });
+assert(recentA1c.length === 1 && recentA1c[0].entity.value === "6.8", "from bound drops the 2020 A1C");
+assert(recentA1c[0].encounter?.PAT_ENC_CSN_ID === 2, "lab result hit knows its encounter");
+
+assert(record.find({ component: "a1c" }).every(h => h.type === "labResult"), "component matches lab results only");
+assert(record.find({ type: ["order", "labResult"], name: "lipid" }).length === 1, "name matches the lipid panel order only");
+assert(record.find({ encounter: 2, type: "labResult" }).length === 3, "encounter filter keeps that visit's results");
+assert(record.find({ type: "encounter", from: "2022-03-15", to: "2022-03-15" }).length === 1,
+  "Epic display dates are compared as calendar dates");
+assert(record.find({ type: "problem", to: "2030-01-01" }).length === 1, "problem dated by DATE_OF_ENTRY");
+
+let threw = false;
+try { record.find({ from: "next tuesday" }); } catch { threw = true; }
+assert(threw, "an unparseable bound throws instead of matching everything");
+
+// ════════════════════════════════════════════════════════════════════════════
+// 2. BETWEEN
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 2. between() ═══");
+
+const window = record.between("2022-03-01", new Date(Date.UTC(2022, 2, 31)));
+const types = new Set(window.map(h => h.type));
+assert(["encounter", "order", "labResult", "message"].every(t => types.has(t as never)),
+  `window holds encounters, orders, results and messages: ${[...types]}`);
+assert(window.every(h => h.date! >= "2022-03-01" && h.date! <= "2022-03-31"), "every hit is inside the window");
+assert(window.every((h, i) => i === 0 || window[i - 1].date! <= h.date!), "hits are in date order");
+assert(!window.some(h => h.type === "problem"), "the 2019 problem is outside the window");
+
+// ════════════════════════════════════════════════════════════════════════════
+// 3. SEARCH
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 3. search() ═══");
+
+const metformin = record.search("metformin");
+assert(metformin.some(h => h.entity instanceof Note), "search finds note text");
+assert(metformin.some(h => h.entity instanceof Message), "search finds message bodies (case-insensitive)");
+assert(record.search(/diabetes/i).some(h => h.type === "diagnosis"), "search finds diagnosis names");
+assert(record.search(/hyperlipidemia/i, "problem").length === 1, "search can be limited to one type");
+assert(record.search("metformin", "note").length === 1, "type filter applies to search");
+const globalPattern = /metformin/gi;
+const firstCall = record.search(globalPattern).length;
+assert(firstCall === 3 && record.search(globalPattern).length === firstCall,
+  "a global regex gives the same results every call");
+
+// ════════════════════════════════════════════════════════════════════════════
+// 4. TIMELINE
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 4. timeline() ═══");
+
+const timeline = record.timeline();
+const kinds = timeline.map(e => e.kind);
+assert(timeline.every((e, i) => i === 0 || timeline[i - 1].date <= e.date), "timeline is in date order");
+assert(["visit", "order", "result", "note", "medicationStart", "medicationStop", "problemOnset",
+  "problemResolved", "message", "payment"].every(k => kinds.includes(k as never)),
+  `timeline merges every kind present: ${[...new Set(kinds)]}`);
+assert(kinds.filter(k => k === "result").length === 4, "one result event per result");
+assert(timeline.find(e => e.kind === "visit" && e.source.PAT_ENC_CSN_ID === 2)?.date === "2022-03-15",
+  "Epic display dates become canonical ISO");
+
+const stop = timeline.find(e => e.kind === "medicationStop");
+assert(stop?.date === "2022-03-20" && stop.encounter?.PAT_ENC_CSN_ID === 1,
+  "medication stop carries its date and ordering encounter");
+const resolved = timeline.find(e => e.kind === "problemResolved");
+assert(resolved?.source instanceof Problem && resolved.source.PROBLEM_LIST_ID === "P1",
+  "problem resolution points back at its Problem");
+const payment = timeline.find(e => e.kind === "payment");
+assert(payment?.kind === "payment" && payment.source.amount === -20, "payment points back at its transaction");
+assert(timeline.at(-1)?.kind === "problemResolved", "the 2023 resolution is the last event");
+
+// ════════════════════════════════════════════════════════════════════════════
+// 5. AS OF
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 5. asOf() ═══");
+
+const ids = (ps: Problem[]) => ps.map(p => p.PROBLEM_LIST_ID).join();
+assert(ids(record.asOf("2019-12-31").activeProblems) === "P1", "only the 2019 problem was on the list in 2019");
+assert(ids(record.asOf("2021-03-01").activeProblems) === "P1,P2", "history shows P2 active before its deletion");
+assert(ids(record.asOf("2021-07-01").activeProblems) === "P1", "P2 is gone from the day it was deleted");
+assert(record.asOf("2023-05-01").activeProblems.length === 0, "P1 is resolved on its resolution day");
+
+assert(record.asOf("2020-05-31").activeMedications.length === 0, "metformin not started yet");
+assert(record.asOf(new Date(Date.UTC(2021, 0, 1))).activeMedications[0]?.ORDER_MED_ID === "OM1", "metformin active in 2021");
+assert(record.asOf("2022-03-20").activeMedications.length === 0, "metformin stopped on its end date");
+
+assert(record.asOf("2021-01-04").allergies.length === 0, "allergy not known before it was noted");
+assert(record.asOf("2021-01-05").allergies.length === 1, "allergy known from the day it was noted");
+
+// Allergy updates and medication reviews rebuild the lists from today's record
+const reviewed = loadPatientRecord({
+  PAT_ID: "Z2",
+  PAT_NAME: "TEST,REVIEWED",
+  encounters: [{
+    PAT_ENC_CSN_ID: 7, CONTACT_DATE: "2021-06-01",
+    current_meds_snapshot: [{ PAT_ENC_CSN_ID: 7, LINE: 1, CURRENT_MED_ID: "OM2" }],
+  }],
+  medications: [
+    { ORDER_MED_ID: "OM2", DESCRIPTION: "LISINOPRIL 10 MG", START_DATE: "2019-01-01", ORDER_STATUS_C_NAME: "Discontinued" },
+    { ORDER_MED_ID: "OM3", DESCRIPTION: "ATORVASTATIN 20 MG", START_DATE: "2021-09-01" },
+    { ORDER_MED_ID: "OM4", DESCRIPTION: "IBUPROFEN 400 MG", START_DATE: "2019-01-01" },
+  ],
+  medication_review_history: [{ PAT_ID: "Z2", LINE: 1, MEDS_HX_REV_INSTANT: "6/1/2021 10:00:00 AM", MEDS_HX_REV_CSN: 7 }],
+  allergies: [
+    { ALLERGY_ID: "A2", ALLERGEN_ID_ALLERGEN_NAME: "SULFA", DATE_NOTED: "2020-01-01", ALRGY_STATUS_C_NAME: "Deleted" },
+    { ALLERGY_ID: "A3", ALLERGEN_ID_ALLERGEN_NAME: "LATEX", DATE_NOTED: "2020-01-01", ALRGY_STATUS_C_NAME: "Deleted" },
+  ],
+  billing: {
+    transactions: [
+      // Denied charge voided 12/20/2022 and reposted (docs/billing-model.md)
+      { TX_ID: "315026147", TX_TYPE_C_NAME: "Charge", AMOUNT: 315, POST_DATE: "12/6/2022 12:00:00 AM", VOID_DATE: "12/20/2022 12:00:00 AM" },
+      { TX_ID: "317236398", TX_TYPE_C_NAME: "Charge", AMOUNT: 315, POST_DATE: "12/20/2022 12:00:00 AM" },
+    ],
+  },
+  allergy_update_history: [
+    { PAT_ID: "Z2", LINE: 1, ALLERGY_RECORD_ID: "A2", ALRG_UPDT_DTTM: "1/1/2020 9:00:00 AM" },
+    { PAT_ID: "Z2", LINE: 2, ALLERGY_RECORD_ID: "A2", ALRG_UPDT_DTTM: "6/1/2022 10:00:00 AM" },
+  ],
+});
+const medIds = (day: string) => reviewed.asOf(day).activeMedications.map(m => m.ORDER_MED_ID).join();
+assert(medIds("2020-01-01") === "OM2,OM4", `before any review the list comes from start dates: ${medIds("2020-01-01")}`);
+assert(medIds("2021-10-01") === "OM2,OM3", `review snapshot plus later starts, got ${medIds("2021-10-01")}`);
+assert(reviewed.asOf("2021-10-01").medicationsReviewed === "2021-06-01T10:00:00", "last medication review on or before the day");
+assert(reviewed.asOf("2020-01-01").medicationsReviewed === undefined, "no medication review yet");
+
+const allergyIds = (day: string) => reviewed.asOf(day).allergies.map(a => a.ALLERGY_ID).join();
+assert(allergyIds("2021-03-01") === "A2", "a deleted allergy is on the list until its last update");
+assert(allergyIds("2022-06-01") === "", "the allergy is gone from the day it was deleted");
+assert(reviewed.asOf("2021-03-01").allergiesReviewed === "2020-01-01T09:00:00", "last allergy update on or before the day");
+
+assert(reviewed.asOf("2022-12-19").professionalBalance === 315, "a charge counts until it is voided");
+assert(reviewed.asOf("2022-12-20").professionalBalance === 315, "a voided charge leaves AR as its repost enters");
+assert(reviewed.asOf("2024-01-01").professionalBalance === 315, "a void/repost chain counts its charge once");
+
+assert(record.asOf("2021-01-01").socialHistory?.TOBACCO_USER_C_NAME === "Yes", "2020 social history in effect in 2021");
+assert(record.asOf("2022-03-15").socialHistory?.TOBACCO_USER_C_NAME === "Quit", "display contact dates compare as dates");
+assert(record.asOf("2020-01-01").socialHistory === undefined, "no social history before the first snapshot");
+
+assert(record.asOf("2022-03-14").professionalBalance === 0, "nothing posted before the charge");
+assert(record.asOf("2022-03-31").professionalBalance === 150, "charge posted, payment not yet");
+assert(record.asOf("2022-04-02").professionalBalance === 130, "payment posted on its post date");
+
+threw = false;
+try { record.asOf("someday"); } catch { threw = true; }
+assert(threw, "an unparseable date throws");
+
+// ════════════════════════════════════════════════════════════════════════════
+// SUMMARY
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n" + "═".repeat(60));
+console.log(`RESULTS: ${passed} passed, ${failed} failed`);
+if (failures.length > 0) {
+  console.log("\nFailures:");
+  for (const f of failures) {
+    console.log(`  ✗ ${f}`);
+  }
+}
+console.log("═".repeat(60));
+
+process.exit(failed > 0 ? 1 : 0);
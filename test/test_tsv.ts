@@ -0,0 +1,148 @@
+/**
+ * test_tsv.ts — TSV reader tests (no database or sample data needed)
+ *
+ * 1. Record parsing: quoted fields with embedded tabs, newlines and "" escapes
+ * 2. Encoding detection: UTF-8 (with/without BOM), UTF-16 LE/BE, Windows-1252
+ * 3. Malformed line accounting: unterminated quotes, stray quotes, field counts
+ *
+ * Usage: bun run test/test_tsv.ts
+ */
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { openTsv, parseRecord, detectEncoding } from "../src/tsv";
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, msg: string) {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(msg);
+    console.log(`  FAIL: ${msg}`);
+  }
+}
+
+const dir = mkdtempSync(join(tmpdir(), "ehi-tsv-"));
+function write(name: string, data: string | Uint8Array): string {
+  const path = join(dir, name);
+  writeFileSync(path, data);
+  return path;
+}
+
+function readAll(path: string) {
+  const { header, rows, stats } = openTsv(path);
+  return { header, rows: [...rows], stats };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// 1. RECORD PARSING
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 1. Record parsing ═══");
+
+let r = parseRecord("a\tb\t\tc");
+assert(JSON.stringify(r.fields) === '["a","b","","c"]', `plain fields: ${JSON.stringify(r.fields)}`);
+
+r = parseRecord('1\t"has\ttab"\t"say ""hi"""');
+assert(r.fields[1] === "has\ttab", `embedded tab kept: ${JSON.stringify(r.fields[1])}`);
+assert(r.fields[2] === 'say "hi"', `doubled quotes unescaped: ${JSON.stringify(r.fields[2])}`);
+assert(!r.malformed && !r.incomplete, "well-formed quoted record is not flagged");
+
+r = parseRecord('1\t"first line');
+assert(r.incomplete, "open quote at end of line needs more input");
+
+r = parseRecord('1\t"Quoted" then text\t3');
+assert(r.malformed, "text after closing quote is flagged");
+assert(r.fields[1] === '"Quoted" then text' && r.fields[2] === "3",
+  `stray-quote field kept verbatim: ${JSON.stringify(r.fields)}`);
+
+// ════════════════════════════════════════════════════════════════════════════
+// 2. MULTI-LINE RECORDS
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 2. Multi-line records ═══");
+
+let t = readAll(write("notes.tsv",
+  'NOTE_ID\tLINE\tNOTE_TEXT\r\n' +
+  'N1\t1\t"Assessment:\r\n\tstable\r\nPlan: f/u"\r\n' +
+  'N1\t2\tplain\r\n'));
+assert(t.rows.length === 2, `embedded newlines don't split rows (got ${t.rows.length})`);
+assert(t.rows[0].NOTE_TEXT === "Assessment:\n\tstable\nPlan: f/u",
+  `multi-line note text: ${JSON.stringify(t.rows[0].NOTE_TEXT)}`);
+assert(t.rows[1].NOTE_TEXT === "plain", "row after multi-line record is intact");
+assert(t.stats.malformedLines === 0, `no malformed lines (got ${t.stats.malformedLines})`);
+
+t = readAll(write("unterminated.tsv",
+  'ID\tTXT\n' +
+  '1\t"never closed\n' +
+  '2\tfine\n' +
+  '3\talso fine\n'));
+assert(t.rows.length === 3, `unterminated quote doesn't swallow the file (got ${t.rows.length} rows)`);
+assert(t.rows[1].TXT === "fine" && t.rows[2].ID === "3", "lines after unterminated quote re-read");
+assert(t.stats.malformedLines === 1, `unterminated quote counted (got ${t.stats.malformedLines})`);
+
+t = readAll(write("counts.tsv", 'A\tB\tC\n1\t2\n1\t2\t3\t4\n1\t2\t3\n'));
+assert(t.stats.malformedLines === 2, `wrong field counts counted (got ${t.stats.malformedLines})`);
+assert(t.rows[0].C === "", "missing trailing field padded with empty string");
+
+// ════════════════════════════════════════════════════════════════════════════
+// 3. ENCODINGS
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n═══ 3. Encodings ═══");
+
+const text = "PAT_ID\tPAT_NAME\nZ1\tJOSÉ “Pepe” NUÑEZ\n";
+
+const utf8Bom = write("bom.tsv", new Uint8Array([0xef, 0xbb, 0xbf, ...Buffer.from(text, "utf-8")]));
+t = readAll(utf8Bom);
+assert(detectEncoding(utf8Bom) === "utf-8", "UTF-8 BOM detected");
+assert(t.header[0] === "PAT_ID", `BOM stripped from first header (${JSON.stringify(t.header[0])})`);
+
+const le = write("le.tsv", new Uint8Array([0xff, 0xfe, ...Buffer.from(text, "utf16le")]));
+t = readAll(le);
+assert(t.stats.encoding === "utf-16le", `UTF-16LE BOM detected (${t.stats.encoding})`);
+assert(t.rows[0]?.PAT_NAME === "JOSÉ “Pepe” NUÑEZ", `UTF-16LE decoded: ${t.rows[0]?.PAT_NAME}`);
+
+const leNoBom = write("le_nobom.tsv", Buffer.from(text, "utf16le"));
+assert(detectEncoding(leNoBom) === "utf-16le", "UTF-16LE without BOM detected by NUL pattern");
+
+const be = Buffer.from(text, "utf16le");
+for (let i = 0; i < be.length; i += 2) [be[i], be[i + 1]] = [be[i + 1], be[i]];
+t = readAll(write("be.tsv", new Uint8Array([0xfe, 0xff, ...be])));
+assert(t.stats.encoding === "utf-16be", `UTF-16BE BOM detected (${t.stats.encoding})`);
+assert(t.rows[0]?.PAT_NAME === "JOSÉ “Pepe” NUÑEZ", `UTF-16BE decoded: ${t.rows[0]?.PAT_NAME}`);
+
+// Windows-1252: É = 0xC9, “ = 0x93, ” = 0x94, Ñ = 0xD1
+const cp1252 = write("cp1252.tsv", new Uint8Array([
+  ...Buffer.from("PAT_ID\tPAT_NAME\nZ1\tJOS", "ascii"), 0xc9,
+  0x20, 0x93, ...Buffer.from("Pepe", "ascii"), 0x94,
+  ...Buffer.from(" NU", "ascii"), 0xd1, ...Buffer.from("EZ\n", "ascii"),
+]));
+t = readAll(cp1252);
+assert(t.stats.encoding === "windows-1252", `invalid UTF-8 falls back to Windows-1252 (${t.stats.encoding})`);
+assert(t.rows[0]?.PAT_NAME === "JOSÉ “Pepe” NUÑEZ", `Windows-1252 decoded: ${t.rows[0]?.PAT_NAME}`);
+
+t = readAll(write("empty.tsv", ""));
+assert(t.header.length === 0 && t.rows.length === 0, "empty file has no header and no rows");
+
+rmSync(dir, { recursive: true, force: true });
+
+// ════════════════════════════════════════════════════════════════════════════
+// SUMMARY
+// ════════════════════════════════════════════════════════════════════════════
+
+console.log("\n" + "═".repeat(60));
+console.log(`RESULTS: ${passed} passed, ${failed} failed`);
+if (failures.length > 0) {
+  console.log("\nFailures:");
+  for (const f of failures) {
+    console.log(`  ✗ ${f}`);
+  }
+}
+console.log("═".repeat(60));
+
+process.exit(failed > 0 ? 1 : 0);
@@ -1,6 +1,5 @@
 import { Database } from "bun:sqlite";
-import { readFileSync } from "fs";
-import splitConfig from "../src/split_config.json";
+import { referencedTables, splits } from "../src/projection_spec";
 
 const db = new Database("ehi_clean.db", { readonly: true });
 
@@ -14,27 +13,11 @@ function rowCount(t: string): number {
   return (db.query(`SELECT COUNT(*) as n FROM "${t}"`).get() as {n:number}).n;
 }
 
-const allTables = q("SELECT name FROM sqlite_master WHERE type='table' ORDER BY name").map(r => r.name as string);
+// Loader bookkeeping tables (_export_batch, _export_change) aren't EHI data
+const allTables = q("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE '\\_%' ESCAPE '\\' ORDER BY name").map(r => r.name as string);
 
-// ── Dynamically extract all referenced tables from project.ts ──────────────
-const specTables = new Set<string>();
-
-// From split_config
-for (const [base, info] of Object.entries(splitConfig as Record<string, {base_pk: string; members: Array<{table: string; join_col: string}>}>)) {
-  specTables.add(base);
-  for (const m of info.members) specTables.add(m.table);
-}
-
-// Parse project.ts for all table references
-const projectSrc = readFileSync("src/project.ts", "utf-8");
-// ChildSpec table entries: table: "TABLE_NAME"
-for (const m of projectSrc.matchAll(/table:\s*"([A-Z_][A-Z_0-9]*)"/g)) specTables.add(m[1]);
-// SQL FROM clauses: FROM "TABLE_NAME"
-for (const m of projectSrc.matchAll(/FROM\s+"([A-Z_][A-Z_0-9]*)"/g)) specTables.add(m[1]);
-// tableExists("TABLE_NAME")
-for (const m of projectSrc.matchAll(/tableExists\("([A-Z_][A-Z_0-9]*)"\)/g)) specTables.add(m[1]);
-// Single-quoted table names in specTables set
-for (const m of projectSrc.matchAll(/'([A-Z_][A-Z_0-9]*)'/g)) specTables.add(m[1]);
+// ── Referenced tables, from the projection registry ────────────────────────
+const specTables = referencedTables();
 
 // Now categorize every table
 interface TableInfo {
@@ -90,7 +73,7 @@ for (const name of allTables) {
     colCount: tableCols.length,
     nonNullCols,
     isCovered: specTables.has(name),
-    isSplit: Object.values(splitConfig as any).some((c: any) => c.members?.some((m: any) => m.table === name)),
+    isSplit: Object.values(splits).some(c => c.members.some(m => m.table === name)),
     isLookup: name.startsWith('CLARITY_') || name.startsWith('ZC_'),
     hasData: rows > 0,
     fkHints: [...new Set(fkHints)],
@@ -4,6 +4,7 @@
  * exists in the corresponding DB table.
  */
 import { Database } from "bun:sqlite";
+import { childGroups, rowLookups, splits, projectionJoins, projectedTables, keyCols, type ChildSpec } from "../src/projection_spec";
 
 const db = new Database("ehi_clean.db", { readonly: true });
 function q(sql: string, params: unknown[] = []) { return db.query(sql).all(...params) as Record<string,unknown>[]; }
@@ -11,25 +12,45 @@ function tableCols(t: string): Set<string> {
   return new Set(q(`PRAGMA table_info("${t}")`).map(r => r.name as string));
 }
 
-// 1. Check: every ChildSpec fkCol exists in the child table
+// 1. Check: every ChildSpec fkCol exists in the child table, and every
+//    parent key column in its parent table
 const projectSrc = await Bun.file("src/project.ts").text();
+const tableExists = (t: string) => q(`SELECT 1 FROM sqlite_master WHERE type='table' AND name=?`, [t]).length > 0;
 
-// Extract all ChildSpec entries: { table: "X", fkCol: "Y", key: "z" }
-const childSpecRE = /\{\s*table:\s*"([^"]+)",\s*fkCol:\s*"([^"]+)",\s*key:\s*"([^"]+)"/g;
 let match;
 let specErrors = 0;
 let specChecked = 0;
 console.log("=== ChildSpec fkCol validation ===");
-while ((match = childSpecRE.exec(projectSrc)) !== null) {
-  const [, table, fkCol] = match;
-  specChecked++;
-  const exists = q(`SELECT 1 FROM sqlite_master WHERE type='table' AND name=?`, [table]);
-  if (exists.length === 0) continue; // table might not exist in this export
-  const cols = tableCols(table);
-  if (!cols.has(fkCol)) {
-    console.log(`  ✗ ${table}.${fkCol} — column does NOT exist! Has: ${[...cols].join(', ')}`);
+function checkSpecs(specs: ChildSpec[], parentTable: string, nested: boolean) {
+  for (const spec of specs) {
+    specChecked++;
+    if (!tableExists(spec.table)) continue; // table might not exist in this export
+    const cols = tableCols(spec.table);
+    for (const fkCol of keyCols(spec.fkCol)) {
+      if (!cols.has(fkCol)) {
+        console.log(`  ✗ ${spec.table}.${fkCol} — column does NOT exist! Has: ${[...cols].join(', ')}`);
+        specErrors++;
+      }
+    }
+    // Nested specs match columns of the parent spec's rows
+    if (nested && tableExists(parentTable)) {
+      const pcols = tableCols(parentTable);
+      for (const c of keyCols(spec.parentCol ?? spec.fkCol)) {
+        if (!pcols.has(c)) {
+          console.log(`  ✗ ${parentTable}.${c} — parent column for ${spec.table} does NOT exist!`);
+          specErrors++;
+        }
+      }
+    }
+    if (spec.children) checkSpecs(spec.children, spec.table, true);
+  }
+}
+for (const { specs, parentTable, parentCol } of childGroups) {
+  if (tableExists(parentTable) && !tableCols(parentTable).has(parentCol)) {
+    console.log(`  ✗ ${parentTable}.${parentCol} — parent key does NOT exist!`);
     specErrors++;
   }
+  checkSpecs(specs, parentTable, false);
 }
 console.log(`  Checked ${specChecked} ChildSpecs, ${specErrors} errors\n`);
 
@@ -113,18 +134,21 @@ const dotColRE = /\.([A-Z][A-Z_0-9]+)/g;
 while ((match = dotColRE.exec(allSrc)) !== null) {
   allReferencedCols.add(match[1]);
 }
+// And every column the projection registry joins or looks up on
+for (const j of projectionJoins()) {
+  allReferencedCols.add(j.column);
+  if (j.refColumn) allReferencedCols.add(j.refColumn);
+}
+for (const lookups of Object.values(rowLookups)) {
+  for (const l of lookups) {
+    for (const c of [l.idCol].flat()) allReferencedCols.add(c);
+    allReferencedCols.add(l.pkCol);
+    allReferencedCols.add(l.nameCol);
+  }
+}
 
 // For each covered table, find columns with data that aren't referenced
-const coveredTables = new Set<string>();
-const specTableRE = /table:\s*"([^"]+)"/g;
-while ((match = specTableRE.exec(projectSrc)) !== null) coveredTables.add(match[1]);
-// Add root tables
-for (const t of ['PATIENT','PAT_ENC','ORDER_PROC','ORDER_MED','HNO_INFO','ARPB_TRANSACTIONS',
-  'ACCOUNT','ARPB_VISITS','MYC_MESG','REFERRAL','COVERAGE','CLM_VALUES','HSP_ACCOUNT',
-  'CL_REMIT','ALLERGY','PROBLEM_LIST','IMMUNE','SOCIAL_HX','SURGICAL_HX',
-  'FAMILY_HX_STATUS','FAMILY_HX','DOC_INFORMATION','ORDER_RESULTS']) {
-  coveredTables.add(t);
-}
+const coveredTables = projectedTables();
 
 let unreferencedCount = 0;
 const unreferencedByTable: Record<string, string[]> = {};
@@ -155,25 +179,33 @@ for (const [table, cols] of sorted.slice(0, 15)) {
 }
 console.log(`\n  Total: ${unreferencedCount} data columns in covered tables never referenced in code\n`);
 
-// 5. Check: lookupName() calls — does the table/pkCol/nameCol exist?
-console.log("=== lookupName() validation ===");
-const lookupRE = /lookupName\("([^"]+)",\s*"([^"]+)",\s*"([^"]+)"/g;
+// 5. Check: rowLookups — do the row's ID column and the lookup table's pkCol/nameCol exist?
+console.log("=== rowLookups validation ===");
 let lookupErrors = 0;
-while ((match = lookupRE.exec(projectSrc)) !== null) {
-  const [, table, pkCol, nameCol] = match;
-  if (!allTables.includes(table)) {
-    console.log(`  ✗ lookupName("${table}", ...) — table doesn't exist`);
-    lookupErrors++;
-    continue;
-  }
-  const cols = tableCols(table);
-  if (!cols.has(pkCol)) {
-    console.log(`  ✗ lookupName("${table}", "${pkCol}", ...) — pkCol doesn't exist`);
-    lookupErrors++;
-  }
-  if (!cols.has(nameCol)) {
-    console.log(`  ✗ lookupName("${table}", ..., "${nameCol}") — nameCol doesn't exist`);
-    lookupErrors++;
+for (const [source, lookups] of Object.entries(rowLookups)) {
+  for (const { key, idCol, table, pkCol, nameCol } of lookups) {
+    if (allTables.includes(source)) {
+      const sourceCols = tableCols(source);
+      const present = [idCol].flat().filter(c => sourceCols.has(c));
+      if (present.length === 0) {
+        console.log(`  ✗ ${source}.${key}: idCol ${[idCol].flat().join(" / ")} doesn't exist`);
+        lookupErrors++;
+      }
+    }
+    if (!allTables.includes(table)) {
+      console.log(`  ✗ ${source}.${key}: ${table} — table doesn't exist`);
+      lookupErrors++;
+      continue;
+    }
+    const cols = tableCols(table);
+    if (!cols.has(pkCol)) {
+      console.log(`  ✗ ${source}.${key}: ${table}.${pkCol} — pkCol doesn't exist`);
+      lookupErrors++;
+    }
+    if (!cols.has(nameCol)) {
+      console.log(`  ✗ ${source}.${key}: ${table}.${nameCol} — nameCol doesn't exist`);
+      lookupErrors++;
+    }
   }
 }
 console.log(`  ${lookupErrors} lookup errors\n`);
@@ -182,8 +214,6 @@ console.log(`  ${lookupErrors} lookup errors\n`);
 console.log("=== Split merge column overlap check ===");
 // When merging, columns from splits that have the SAME name as base columns
 // are silently dropped. Check if any dropped columns have different data.
-import splitConfig from "../src/split_config.json";
-const splits = splitConfig as Record<string, { base_pk: string; members: Array<{ table: string; join_col: string }> }>;
 let overlapIssues = 0;
 for (const [base, config] of Object.entries(splits)) {
   if (!allTables.includes(base)) continue;
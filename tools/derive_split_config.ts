@@ -0,0 +1,295 @@
+/**
+ * Derive src/split_config.json from the export itself and check it against
+ * the checked-in copy.
+ *
+ * Epic splits wide tables into PATIENT, PATIENT_2, ..., or CLAIM_INFO,
+ * CLAIM_INFO2, CLAIM_INFO_3 — a name plus a numeric suffix, with or without
+ * the underscore. Families are found by name (loaded tables, plus any
+ * schemas/*.json), then each member's join column is chosen by value
+ * overlap: for every pair of ID-like columns (member, base), how many of
+ * the member's distinct values appear in the base column. A split is 1:1
+ * with its base, so among well-overlapping pairs the one unique on both
+ * sides wins — PAT_ENC_2 joins on PAT_ENC_CSN_ID even though its PAT_ID
+ * values also all appear in PAT_ENC.
+ *
+ * Default mode validates: every disagreement with the checked-in file is
+ * listed and the exit code is 1. --write updates the file instead. Entries
+ * for tables that aren't in this export are kept as they are.
+ *
+ * Usage:
+ *   bun run tools/derive_split_config.ts [--db ehi_clean.db] [--schemas schemas]
+ *   bun run tools/derive_split_config.ts --write
+ */
+import { Database } from "bun:sqlite";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+const DB_PATH = process.argv.includes("--db")
+  ? process.argv[process.argv.indexOf("--db") + 1]
+  : "ehi_clean.db";
+const SCHEMA_DIR = process.argv.includes("--schemas")
+  ? process.argv[process.argv.indexOf("--schemas") + 1]
+  : "schemas";
+const WRITE = process.argv.includes("--write");
+const CONFIG_PATH = join(import.meta.dir, "../src/split_config.json");
+
+/** Below this share of member values found in the base, a join is suspect */
+const MIN_OVERLAP = 0.95;
+
+interface SplitMember { table: string; join_col: string; base_col?: string }
+interface SplitFamily { base_pk: string; members: SplitMember[] }
+type SplitConfig = Record<string, SplitFamily>;
+
+const db = new Database(DB_PATH, { readonly: true });
+function q(sql: string): Record<string, unknown>[] {
+  return db.query(sql).all() as Record<string, unknown>[];
+}
+
+// ─── Tables and keys ───────────────────────────────────────────────────────
+
+// Loader bookkeeping tables (_export_batch, _foreign_key, ...) aren't EHI data
+const loaded = new Set(
+  q("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE '\\_%' ESCAPE '\\'").map(r => r.name as string)
+);
+
+/** Leading primary-key column per table: schema first, else the loaded table's */
+const schemaPk = new Map<string, string | null>();
+if (existsSync(SCHEMA_DIR)) {
+  for (const f of readdirSync(SCHEMA_DIR)) {
+    if (!f.endsWith(".json")) continue;
+    try {
+      const s = JSON.parse(readFileSync(join(SCHEMA_DIR, f), "utf-8"));
+      schemaPk.set(s.name ?? f.replace(/\.json$/, ""), s.primaryKey?.[0]?.columnName ?? null);
+    } catch {
+      // unreadable schema: the loader reports these
+    }
+  }
+}
+
+interface ColInfo { name: string; leadingPk: boolean }
+function columns(table: string): ColInfo[] {
+  if (!loaded.has(table)) return [];
+  const pk = schemaPk.get(table);
+  return q(`PRAGMA table_info("${table}")`)
+    .filter(r => !(r.name as string).startsWith("_"))
+    .map(r => ({ name: r.name as string, leadingPk: pk ? r.name === pk : r.pk === 1 }));
+}
+
+function leadingPk(table: string): string | null {
+  return schemaPk.get(table) ?? columns(table).find(c => c.leadingPk)?.name ?? null;
+}
+
+/** Columns worth trying as a join: the leading PK and anything named like an ID */
+function candidates(table: string): string[] {
+  return columns(table)
+    .filter(c => c.leadingPk || /(_ID|_CSN|_CSN_ID)$/.test(c.name))
+    .map(c => c.name);
+}
+
+const uniqueCache = new Map<string, boolean>();
+function isUnique(table: string, col: string): boolean {
+  const key = `${table}.${col}`;
+  let unique = uniqueCache.get(key);
+  if (unique === undefined) {
+    const r = q(`SELECT COUNT("${col}") AS n, COUNT(DISTINCT "${col}") AS d FROM "${table}"`)[0];
+    unique = (r.n as number) > 0 && r.n === r.d;
+    uniqueCache.set(key, unique);
+  }
+  return unique;
+}
+
+// ─── Families ──────────────────────────────────────────────────────────────
+
+// PATIENT_2, CLAIM_INFO2, CLAIM_INFO_3: a family needs the base table too
+const SPLIT_NAME = /^(.*[A-Z])_?(\d+)$/;
+
+function splitNumber(table: string): number {
+  return Number(SPLIT_NAME.exec(table)?.[2] ?? 0);
+}
+function byMember(a: string, b: string): number {
+  return splitNumber(a) - splitNumber(b) || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+const known = new Set([...loaded, ...schemaPk.keys()]);
+const families = new Map<string, string[]>();
+for (const t of known) {
+  const m = SPLIT_NAME.exec(t);
+  if (!m || Number(m[2]) < 2 || !known.has(m[1])) continue;
+  if (!families.has(m[1])) families.set(m[1], []);
+  families.get(m[1])!.push(t);
+}
+for (const members of families.values()) members.sort(byMember);
+const splitTables = new Set([...families.values()].flat());
+
+// ─── Join column by value overlap ──────────────────────────────────────────
+
+interface JoinCandidate {
+  memberCol: string;
+  baseCol: string;
+  /** Share of the member's distinct non-null values present in the base column */
+  overlap: number;
+  distinct: number;
+  baseUnique: boolean;
+  memberUnique: boolean;
+  memberPk: boolean;
+  basePk: boolean;
+}
+
+function overlap(base: string, baseCol: string, member: string, memberCol: string): { overlap: number; distinct: number } {
+  const r = q(`
+    SELECT COUNT(*) AS d, SUM(v IN (SELECT "${baseCol}" FROM "${base}")) AS hit
+    FROM (SELECT DISTINCT "${memberCol}" AS v FROM "${member}" WHERE "${memberCol}" IS NOT NULL)
+  `)[0];
+  const d = r.d as number;
+  return { overlap: d > 0 ? (r.hit as number) / d : 0, distinct: d };
+}
+
+/** Rank: good overlap, then 1:1 on both sides, then raw overlap, then PK and name matches */
+function rank(c: JoinCandidate): number[] {
+  return [
+    c.overlap >= MIN_OVERLAP ? 1 : 0,
+    c.baseUnique ? 1 : 0,
+    c.memberUnique ? 1 : 0,
+    c.overlap,
+    c.memberPk ? 1 : 0,
+    c.basePk ? 1 : 0,
+    c.memberCol === c.baseCol ? 1 : 0,
+  ];
+}
+function better(a: JoinCandidate, b: JoinCandidate): boolean {
+  const ra = rank(a), rb = rank(b);
+  for (let i = 0; i < ra.length; i++) if (ra[i] !== rb[i]) return ra[i] > rb[i];
+  return false;
+}
+
+function scoreJoin(base: string, member: string, memberCol: string, baseCol: string): JoinCandidate {
+  return {
+    memberCol,
+    baseCol,
+    ...overlap(base, baseCol, member, memberCol),
+    baseUnique: isUnique(base, baseCol),
+    memberUnique: isUnique(member, memberCol),
+    memberPk: leadingPk(member) === memberCol,
+    basePk: leadingPk(base) === baseCol,
+  };
+}
+
+/** Best join for a member, or null when the member has no data to compare */
+function deriveJoin(base: string, member: string): JoinCandidate | null {
+  let best: JoinCandidate | null = null;
+  for (const memberCol of candidates(member)) {
+    for (const baseCol of candidates(base)) {
+      const c = scoreJoin(base, member, memberCol, baseCol);
+      if (c.distinct === 0) continue;
+      if (!best || better(c, best)) best = c;
+    }
+  }
+  return best;
+}
+
+// ─── Compare with the checked-in file ──────────────────────────────────────
+
+const checkedIn = JSON.parse(readFileSync(CONFIG_PATH, "utf-8")) as SplitConfig;
+const derived: SplitConfig = structuredClone(checkedIn);
+const problems: string[] = [];
+const unverified: string[] = [];
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+/** Where the checked-in file puts each member table */
+const checkedInBase = new Map<string, string>();
+for (const [base, fam] of Object.entries(checkedIn)) {
+  for (const m of fam.members) checkedInBase.set(m.table, base);
+}
+
+console.log("=== Split families ===");
+for (const base of [...families.keys()].sort()) {
+  const old = checkedIn[base];
+  const basePk = leadingPk(base) ?? old?.base_pk ?? null;
+  const members: SplitMember[] = [];
+  console.log(`  ${base} (${basePk ?? "no primary key"})${old ? "" : "  — not in split_config.json"}`);
+
+  for (const member of families.get(base)!) {
+    const prev = old?.members.find(m => m.table === member);
+    const best = loaded.has(member) && loaded.has(base) ? deriveJoin(base, member) : null;
+
+    if (!best) {
+      unverified.push(member);
+      console.log(`    ? ${member}: no data to compare${prev ? ", keeping checked-in join" : ""}`);
+      if (prev) members.push(prev);
+      continue;
+    }
+
+    const next: SplitMember = { table: member, join_col: best.memberCol };
+    if (best.baseCol !== basePk) next.base_col = best.baseCol;
+    members.push(next);
+
+    const mark = best.overlap >= MIN_OVERLAP ? "✓" : "✗";
+    console.log(`    ${mark} ${member}.${best.memberCol} → ${base}.${best.baseCol}  ${pct(best.overlap)} of ${best.distinct}`);
+    if (best.overlap < MIN_OVERLAP) {
+      problems.push(`${member}: best join ${best.memberCol} → ${base}.${best.baseCol} only matches ${pct(best.overlap)}`);
+    }
+
+    if (checkedInBase.has(member) && checkedInBase.get(member) !== base) {
+      problems.push(`${member}: checked in under ${checkedInBase.get(member)}, derived as a split of ${base}`);
+    } else if (!prev) {
+      problems.push(`${member}: missing from split_config.json (joins ${best.memberCol} → ${base}.${best.baseCol})`);
+    } else {
+      const prevBaseCol = prev.base_col ?? old!.base_pk;
+      if (prev.join_col !== best.memberCol || prevBaseCol !== best.baseCol) {
+        const cols = columns(member).map(c => c.name);
+        const had = cols.includes(prev.join_col)
+          ? `${pct(scoreJoin(base, member, prev.join_col, prevBaseCol).overlap)} match`
+          : "column not in table";
+        problems.push(
+          `${member}: checked in as ${prev.join_col} → ${base}.${prevBaseCol} (${had}), ` +
+          `data says ${best.memberCol} → ${base}.${best.baseCol} (${pct(best.overlap)})`
+        );
+      }
+    }
+  }
+
+  if (old && basePk && old.base_pk !== basePk) {
+    problems.push(`${base}: base_pk checked in as ${old.base_pk}, schema says ${basePk}`);
+  }
+
+  // Members the checked-in file lists that this export doesn't name — keep them
+  for (const m of old?.members ?? []) {
+    if (!splitTables.has(m.table)) members.push(m);
+  }
+  members.sort((a, b) => byMember(a.table, b.table));
+  if (basePk) derived[base] = { base_pk: basePk, members };
+}
+
+// Checked-in members whose tables are loaded but no longer look like splits
+for (const [member, base] of checkedInBase) {
+  if (loaded.has(member) && !families.get(base)?.includes(member)) {
+    problems.push(`${member}: checked in under ${base}, but its name doesn't split to ${base}`);
+  }
+}
+
+// A member that moved to another family leaves its old one
+for (const [base, fam] of Object.entries(derived)) {
+  if (!families.has(base)) fam.members = fam.members.filter(m => !splitTables.has(m.table));
+}
+
+// ─── Report / write ────────────────────────────────────────────────────────
+
+const sorted: SplitConfig = {};
+for (const base of Object.keys(derived).sort()) sorted[base] = derived[base];
+const memberCount = [...families.values()].reduce((n, m) => n + m.length, 0);
+
+console.log(`\n  ${families.size} families, ${memberCount} split tables, ${unverified.length} without data`);
+if (problems.length > 0) {
+  console.log(`\n=== Disagreements with split_config.json (${problems.length}) ===`);
+  for (const p of problems) console.log(`  ✗ ${p}`);
+}
+
+if (WRITE) {
+  writeFileSync(CONFIG_PATH, JSON.stringify(sorted, null, 2));
+  console.log(`\nWrote ${CONFIG_PATH}`);
+} else if (problems.length > 0) {
+  console.log("\nRe-run with --write to update split_config.json, or fix the export.");
+  process.exit(1);
+} else {
+  console.log("\n  split_config.json agrees with the data ✓");
+}
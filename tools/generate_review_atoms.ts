@@ -15,11 +15,13 @@
 import { readFileSync } from "fs";
 import { Database } from "bun:sqlite";
 import splitConfig from "../src/split_config.json";
+import { rowLookups } from "../src/projection_spec";
 
 const db = new Database("ehi_clean.db", { readonly: true });
 function q(sql: string, p: unknown[] = []) { return db.query(sql).all(...p) as Record<string,unknown>[]; }
 
 const projectSrc = readFileSync("src/project.ts", "utf-8");
+const specSrc = readFileSync("src/projection_spec.ts", "utf-8");
 const prSrc = readFileSync("src/PatientRecord.ts", "utf-8");
 const hrSrc = readFileSync("src/HealthRecord.ts", "utf-8");
 
@@ -70,6 +72,9 @@ function tablesIn(code: string): Set<string> {
   for (const m of code.matchAll(/mergeQuery\("([A-Z][A-Z0-9_]+)"/g)) t.add(m[1]);
   for (const m of code.matchAll(/children(?:Merged)?\("([A-Z][A-Z0-9_]+)"/g)) t.add(m[1]);
   for (const m of code.matchAll(/lookup(?:Name)?\("([A-Z][A-Z0-9_]+)"/g)) t.add(m[1]);
+  for (const m of code.matchAll(/addLookups\("([A-Z][A-Z0-9_]+)"/g)) {
+    for (const l of rowLookups[m[1]] ?? []) t.add(l.table);
+  }
   return t;
 }
 
@@ -122,22 +127,27 @@ for (const name of projectFnNames) {
   });
 }
 
-// 2. ChildSpec arrays
+// 2. ChildSpec arrays (declared in projection_spec.ts)
 const csRegex = /const\s+(\w+Children)[^=]*=\s*\[/g;
-for (const m of projectSrc.matchAll(csRegex)) {
+for (const m of specSrc.matchAll(csRegex)) {
   const name = m[1];
   const startIdx = m.index!;
-  const eqBracket = projectSrc.indexOf('= [', startIdx);
-  const arrayStart = projectSrc.indexOf('[', eqBracket + 2);
+  const eqBracket = specSrc.indexOf('= [', startIdx);
+  const arrayStart = specSrc.indexOf('[', eqBracket + 2);
   let depth = 1, i = arrayStart + 1;
-  while (i < projectSrc.length) {
-    if (projectSrc[i] === '[') depth++;
-    if (projectSrc[i] === ']') { depth--; if (depth === 0) break; }
+  while (i < specSrc.length) {
+    if (specSrc[i] === '[') depth++;
+    if (specSrc[i] === ']') { depth--; if (depth === 0) break; }
     i++;
   }
-  const code = projectSrc.slice(startIdx, i + 1);
+  const code = specSrc.slice(startIdx, i + 1);
   const tables = tablesIn(code);
 
+  // Lookups resolved onto child rows (attachChildren applies rowLookups)
+  for (const t of [...tables]) {
+    for (const l of rowLookups[t] ?? []) tables.add(l.table);
+  }
+
   // Expand split tables
   for (const t of [...tables]) {
     if (t in splitConfig) {
@@ -145,12 +155,16 @@ for (const m of projectSrc.matchAll(csRegex)) {
     }
   }
 
+  // Nested `children:` arrays declared separately
+  const calls = new Set<string>();
+  for (const c of code.matchAll(/children:\s*(\w+Children)\b/g)) calls.add(`cs:${c[1]}`);
+
   graph.set(`cs:${name}`, {
     id: `cs:${name}`,
     kind: "childspec",
     code,
     tables,
-    calls: new Set(),
+    calls,
   });
 }
 
@@ -317,7 +331,7 @@ interface Atom {
 
 // Leaf projection functions (domain functions, not utility)
 const utilityFns = new Set(["tableExists", "q", "qOne", "mergeQuery", "children",
-  "childrenMerged", "lookup", "lookupName", "attachChildren"]);
+  "childrenMerged", "lookup", "lookupName", "addLookups", "specRows", "attachChildren", "childArrays"]);
 
 const atoms: Atom[] = [];
 
@@ -565,8 +579,11 @@ for (const a of atomFulls) {
   console.log(`  ${a.id} (${a.kind}): ${a.tables.length} tables, ${a.nodeIds.length} nodes, ${a.prClasses.length} PR classes, ${a.hrFns.length} HR fns`);
 }
 
-// Verify: every table in project.ts appears in ≥1 atom
+// Verify: every table in project.ts (and its ChildSpec arrays) appears in ≥1 atom
 const allProjectTables = tablesIn(projectSrc);
+for (const node of graph.values()) {
+  if (node.kind === "childspec") for (const t of node.tables) allProjectTables.add(t);
+}
 const atomTables = new Set<string>();
 for (const a of atomFulls) for (const t of a.tables) atomTables.add(t);
 const missingTables = [...allProjectTables].filter(t => !atomTables.has(t)).sort();